@@ -1,38 +1,154 @@
 extends Node
 ## MCP Bridge Autoload
-## Runs in the game and handles stdin/stdout communication with the MCP server
+## Runs in the game and handles communication with the MCP server, either over
+## stdin/stdout (--mcp-bridge, for games the server launches) or over TCP
+## (--mcp-bridge-port=<port> or the mcp_bridge/network/port project setting,
+## for games the server attaches to with attach_to_game)
+
+const PORT_ARG := "--mcp-bridge-port"
+const PORT_SETTING := "mcp_bridge/network/port"
+const BIND_ADDRESS_SETTING := "mcp_bridge/network/bind_address"
+const DEFAULT_BIND_ADDRESS := "127.0.0.1"
+
+# Node added/removed events sent per frame at most, so spawning thousands of
+# nodes (or freeing the whole tree on quit) doesn't flood the server
+const MAX_NODE_EVENTS_PER_FRAME := 100
+
+# Chunk lines of large messages written per frame, so a big screenshot doesn't
+# stall the frame it was taken in
+const MAX_CHUNKS_PER_FRAME := 16
 
 var _commands: MCPCommands
 var _stdin_thread: Thread
 var _running := false
+var _use_stdio := false
 var _message_queue: Array[Dictionary] = []
 var _queue_mutex: Mutex
 
+var _tcp_server: TCPServer
+var _peers: Array[StreamPeerTCP] = []
+# Partial line received from each peer, keyed by peer
+var _peer_buffers: Dictionary = {}
+
+# Chunk lines waiting to be written, as [line, peer] pairs (peer null for stdout)
+var _outbox: Array = []
+
+var _current_scene: Node
+var _node_events_this_frame := 0
+var _dropped_node_events := 0
+
 
 func _ready() -> void:
-	# Only activate in debug builds when launched with --mcp-bridge flag
-	if not _should_activate():
+	# Only activate in debug builds when launched with --mcp-bridge or a bridge port
+	if not OS.is_debug_build():
+		return
+
+	_use_stdio = _has_arg("--mcp-bridge")
+	var port := _get_port()
+	if not _use_stdio and port <= 0:
 		return
 
 	_queue_mutex = Mutex.new()
 	_commands = MCPCommands.new()
 	_running = true
 
-	# Start stdin reading thread
-	_stdin_thread = Thread.new()
-	_stdin_thread.start(_stdin_loop)
+	if port > 0:
+		_start_tcp_server(port)
+
+	if _use_stdio:
+		# Start stdin reading thread
+		_stdin_thread = Thread.new()
+		_stdin_thread.start(_stdin_loop)
+
+	get_tree().node_added.connect(_on_node_added)
+	get_tree().node_removed.connect(_on_node_removed)
 
 	print("[MCP Bridge] Initialized and ready")
 
 
-func _should_activate() -> bool:
-	# Must be a debug build
-	if not OS.is_debug_build():
-		return false
+## Send an event to the MCP server, where it is logged with the current frame
+## (see godot://runs/{runId}/events). Game code can call this for custom events:
+##     MCPBridgeAutoload.emit_event("player_died", {"cause": "lava"})
+func emit_event(type: String, data: Variant = null) -> void:
+	if not _running:
+		return
+
+	var event := MCPProtocol.create_event(type, {
+		"frame": Engine.get_process_frames(),
+		"data": MCPVariant.encode(data)
+	})
+	var lines := MCPProtocol.encode_lines(event)
+
+	if _use_stdio:
+		_send_lines(lines)
+	for peer in _peers:
+		_send_lines(lines, peer)
+
+
+func _on_node_added(node: Node) -> void:
+	_emit_node_event("node_added", node)
+
+
+func _on_node_removed(node: Node) -> void:
+	_emit_node_event("node_removed", node)
+
+
+func _emit_node_event(type: String, node: Node) -> void:
+	if _node_events_this_frame >= MAX_NODE_EVENTS_PER_FRAME:
+		_dropped_node_events += 1
+		return
+
+	_node_events_this_frame += 1
+	emit_event(type, {
+		"path": str(node.get_path()),
+		"name": str(node.name),
+		"type": node.get_class()
+	})
+
+
+func _emit_frame_events() -> void:
+	if _dropped_node_events > 0:
+		emit_event("node_events_dropped", {"count": _dropped_node_events})
+		_dropped_node_events = 0
+	_node_events_this_frame = 0
+
+	var scene := get_tree().current_scene
+	if scene != _current_scene:
+		_current_scene = scene
+		emit_event("scene_changed", {
+			"path": scene.scene_file_path if scene else "",
+			"name": str(scene.name) if scene else ""
+		})
 
-	# Must have --mcp-bridge flag
-	var args := OS.get_cmdline_args()
-	return "--mcp-bridge" in args or "--mcp-bridge" in OS.get_cmdline_user_args()
+
+func _has_arg(flag: String) -> bool:
+	return flag in OS.get_cmdline_args() or flag in OS.get_cmdline_user_args()
+
+
+## Port from --mcp-bridge-port=<port> (or --mcp-bridge-port <port>), falling back
+## to the project setting; 0 disables the TCP listener
+func _get_port() -> int:
+	var args := OS.get_cmdline_args() + OS.get_cmdline_user_args()
+	for i in range(args.size()):
+		var arg: String = args[i]
+		if arg.begins_with(PORT_ARG + "="):
+			return arg.get_slice("=", 1).to_int()
+		if arg == PORT_ARG and i + 1 < args.size():
+			return (args[i + 1] as String).to_int()
+
+	return int(ProjectSettings.get_setting(PORT_SETTING, 0))
+
+
+func _start_tcp_server(port: int) -> void:
+	var bind_address: String = ProjectSettings.get_setting(BIND_ADDRESS_SETTING, DEFAULT_BIND_ADDRESS)
+	_tcp_server = TCPServer.new()
+	var err := _tcp_server.listen(port, bind_address)
+	if err != OK:
+		push_error("[MCP Bridge] Failed to listen on %s:%d: %s" % [bind_address, port, error_string(err)])
+		_tcp_server = null
+		return
+
+	print("[MCP Bridge] Listening on %s:%d" % [bind_address, port])
 
 
 func _stdin_loop() -> void:
@@ -67,25 +183,101 @@ func _process(_delta: float) -> void:
 	for msg in messages:
 		_process_message(msg)
 
+	if _tcp_server:
+		_poll_tcp()
+
+	_emit_frame_events()
+	_flush_outbox()
+
+
+func _poll_tcp() -> void:
+	while _tcp_server.is_connection_available():
+		var peer := _tcp_server.take_connection()
+		_peers.append(peer)
+		_peer_buffers[peer] = ""
+
+	for peer in _peers.duplicate():
+		peer.poll()
+		if peer.get_status() != StreamPeerTCP.STATUS_CONNECTED:
+			_peers.erase(peer)
+			_peer_buffers.erase(peer)
+			continue
+
+		var available := peer.get_available_bytes()
+		if available <= 0:
+			continue
+
+		var result := peer.get_data(available)
+		if result[0] != OK:
+			continue
 
-func _process_message(msg: Dictionary) -> void:
-	# Execute command and send response
-	var response = _commands.execute(msg)
+		# Same line framing as stdio: one encoded message per line
+		var lines: PackedStringArray = (_peer_buffers[peer] + (result[1] as PackedByteArray).get_string_from_utf8()).split("\n")
+		_peer_buffers[peer] = lines[lines.size() - 1]
+		for i in range(lines.size() - 1):
+			var msg := MCPProtocol.decode(lines[i].strip_edges())
+			if msg != null:
+				_process_message(msg, peer)
+
+
+func _process_message(msg: Dictionary, peer: StreamPeerTCP = null) -> void:
+	# Execute command and send response; async commands (screenshot, batch)
+	# reply once they finish, without holding up the rest of the queue
+	var response = await _commands.execute(msg)
 
-	# Handle async responses (awaited)
 	if response is Dictionary:
-		_send_response(response)
+		_send_response(response, peer)
+
+
+## Reply over the transport the request came in on
+func _send_response(response: Dictionary, peer: StreamPeerTCP = null) -> void:
+	_send_lines(MCPProtocol.encode_lines(response), peer)
+
+
+## Write a single-line message now; queue chunked ones to spread over frames
+func _send_lines(lines: PackedStringArray, peer: StreamPeerTCP = null) -> void:
+	if lines.size() == 1:
+		_write_line(lines[0], peer)
+		return
 
+	for line in lines:
+		_outbox.append([line, peer])
 
-func _send_response(response: Dictionary) -> void:
-	var encoded := MCPProtocol.encode(response)
-	print(encoded)
+
+func _flush_outbox() -> void:
+	var count := mini(_outbox.size(), MAX_CHUNKS_PER_FRAME)
+	for i in range(count):
+		var entry: Array = _outbox[i]
+		# Skip peers that disconnected since the message was queued
+		if entry[1] == null or entry[1] in _peers:
+			_write_line(entry[0], entry[1])
+	_outbox = _outbox.slice(count)
+
+
+func _write_line(line: String, peer: StreamPeerTCP) -> void:
+	if peer:
+		peer.put_data((line + "\n").to_utf8_buffer())
+	else:
+		print(line)
 
 
 func _exit_tree() -> void:
 	_running = false
 
+	if get_tree().node_added.is_connected(_on_node_added):
+		get_tree().node_added.disconnect(_on_node_added)
+		get_tree().node_removed.disconnect(_on_node_removed)
+
+	for peer in _peers:
+		peer.disconnect_from_host()
+	_peers.clear()
+	_peer_buffers.clear()
+	_outbox.clear()
+
+	if _tcp_server:
+		_tcp_server.stop()
+
 	if _stdin_thread and _stdin_thread.is_started():
 		# Note: The thread may be blocked on stdin read
-		# It will terminate when the process exits
+		# The MCP server closes stdin after a quit request so the read returns
 		_stdin_thread.wait_to_finish()
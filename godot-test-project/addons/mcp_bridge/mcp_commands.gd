@@ -2,8 +2,25 @@ class_name MCPCommands
 extends RefCounted
 ## Command dispatcher for MCP bridge
 
-const VERSION := "1.0"
-const CAPABILITIES := ["screenshot", "nodes", "input", "scene"]
+# Bridge protocol version (MAJOR.MINOR); servers with the same major version are
+# compatible, see PROTOCOL_VERSION in the server's src/bridge/protocol.ts
+const PROTOCOL_VERSION := "1.1"
+# Addon release, matching plugin.cfg
+const ADDON_VERSION := "1.1.0"
+const CAPABILITIES := ["screenshot", "nodes", "input", "scene", "lifecycle", "events", "batch"]
+
+# Bridge commands behind each batch operation
+const BATCH_OPERATIONS := {
+	"get": "get_node",
+	"set": "set_property",
+	"call": "call_method"
+}
+const INPUT_COMMANDS := {
+	"action": "input_action",
+	"key": "input_key",
+	"mouse_button": "input_mouse_button",
+	"mouse_motion": "input_mouse_motion"
+}
 
 
 ## Execute a command and return the response
@@ -15,6 +32,8 @@ func execute(msg: Dictionary) -> Dictionary:
 	match command:
 		"handshake":
 			return _handle_handshake(request_id, payload)
+		"ping":
+			return _handle_ping(request_id, payload)
 		"screenshot":
 			return await _handle_screenshot(request_id, payload)
 		"get_scene_tree":
@@ -35,49 +54,47 @@ func execute(msg: Dictionary) -> Dictionary:
 			return _handle_input_mouse_button(request_id, payload)
 		"input_mouse_motion":
 			return _handle_input_mouse_motion(request_id, payload)
+		"quit":
+			return _handle_quit(request_id, payload)
+		"batch":
+			return await _handle_batch(request_id, payload)
 		_:
 			return MCPProtocol.create_error_response(
 				request_id, command, "UNKNOWN_COMMAND", "Unknown command: " + command
 			)
 
 
-func _handle_handshake(request_id: String, _payload: Variant) -> Dictionary:
+func _handle_handshake(request_id: String, payload: Variant) -> Dictionary:
+	var server_version: String = str(payload.get("version", "")) if payload is Dictionary else ""
+	if server_version.get_slice(".", 0) != PROTOCOL_VERSION.get_slice(".", 0):
+		return MCPProtocol.create_error_response(
+			request_id, "handshake", "INCOMPATIBLE_VERSION",
+			"MCP server speaks bridge protocol %s, but MCP Bridge addon v%s speaks protocol %s" % [
+				server_version if not server_version.is_empty() else "(unknown)", ADDON_VERSION, PROTOCOL_VERSION
+			]
+		)
+
 	return MCPProtocol.create_response(request_id, "handshake", {
-		"version": VERSION,
+		"version": PROTOCOL_VERSION,
+		"addonVersion": ADDON_VERSION,
 		"capabilities": CAPABILITIES
 	})
 
 
+## Heartbeat from the server; answering at all shows the main thread is running
+func _handle_ping(request_id: String, _payload: Variant) -> Dictionary:
+	return MCPProtocol.create_response(request_id, "ping", {
+		"frame": Engine.get_process_frames()
+	})
+
+
 func _handle_screenshot(request_id: String, payload: Variant) -> Dictionary:
 	var format: String = payload.get("format", "png") if payload is Dictionary else "png"
 
 	# Wait for the current frame to finish rendering
 	await RenderingServer.frame_post_draw
 
-	var viewport := _get_main_viewport()
-	if viewport == null:
-		return MCPProtocol.create_error_response(
-			request_id, "screenshot", "NO_VIEWPORT", "Could not find main viewport"
-		)
-
-	var img := viewport.get_texture().get_image()
-	if img == null:
-		return MCPProtocol.create_error_response(
-			request_id, "screenshot", "CAPTURE_FAILED", "Failed to capture viewport image"
-		)
-
-	var buffer: PackedByteArray
-	match format:
-		"jpeg", "jpg":
-			buffer = img.save_jpg_to_buffer()
-		_:
-			buffer = img.save_png_to_buffer()
-
-	return MCPProtocol.create_response(request_id, "screenshot", {
-		"data": Marshalls.raw_to_base64(buffer),
-		"width": img.get_width(),
-		"height": img.get_height()
-	})
+	return _capture_viewport(request_id, format)
 
 
 func _handle_get_scene_tree(request_id: String, _payload: Variant) -> Dictionary:
@@ -119,7 +136,8 @@ func _handle_set_property(request_id: String, payload: Variant) -> Dictionary:
 
 	var node_path: String = payload.get("path", "")
 	var property: String = payload.get("property", "")
-	var value: Variant = payload.get("value")
+	var errors: Array[String] = []
+	var value: Variant = MCPVariant.decode(payload.get("value"), errors)
 
 	if node_path.is_empty() or property.is_empty():
 		return MCPProtocol.create_error_response(
@@ -137,10 +155,17 @@ func _handle_set_property(request_id: String, payload: Variant) -> Dictionary:
 			request_id, "set_property", "PROPERTY_NOT_FOUND", "Property not found: " + property
 		)
 
+	if not errors.is_empty():
+		return MCPProtocol.create_error_response(
+			request_id, "set_property", "INVALID_VALUE", "; ".join(errors)
+		)
+
 	node.set(property, value)
 
+	# Echo the stored value so callers see how the engine converted it
 	return MCPProtocol.create_response(request_id, "set_property", {
-		"success": true
+		"success": true,
+		"value": MCPVariant.encode(node.get(property))
 	})
 
 
@@ -152,7 +177,8 @@ func _handle_call_method(request_id: String, payload: Variant) -> Dictionary:
 
 	var node_path: String = payload.get("path", "")
 	var method: String = payload.get("method", "")
-	var args: Array = payload.get("args", [])
+	var errors: Array[String] = []
+	var args: Variant = MCPVariant.decode(payload.get("args", []), errors)
 
 	if node_path.is_empty() or method.is_empty():
 		return MCPProtocol.create_error_response(
@@ -170,10 +196,20 @@ func _handle_call_method(request_id: String, payload: Variant) -> Dictionary:
 			request_id, "call_method", "METHOD_NOT_FOUND", "Method not found: " + method
 		)
 
+	if not args is Array:
+		return MCPProtocol.create_error_response(
+			request_id, "call_method", "INVALID_PARAMS", "'args' must be an array"
+		)
+
+	if not errors.is_empty():
+		return MCPProtocol.create_error_response(
+			request_id, "call_method", "INVALID_VALUE", "; ".join(errors)
+		)
+
 	var result = node.callv(method, args)
 
 	return MCPProtocol.create_response(request_id, "call_method", {
-		"result": result
+		"result": MCPVariant.encode(result)
 	})
 
 
@@ -316,8 +352,136 @@ func _handle_input_mouse_motion(request_id: String, payload: Variant) -> Diction
 	})
 
 
+func _handle_quit(request_id: String, payload: Variant) -> Dictionary:
+	var exit_code: int = payload.get("exitCode", 0) if payload is Dictionary else 0
+
+	var tree := Engine.get_main_loop() as SceneTree
+	if tree == null:
+		return MCPProtocol.create_error_response(
+			request_id, "quit", "NO_SCENE_TREE", "Could not get SceneTree"
+		)
+
+	# Defer so the acknowledgement is printed before the tree starts shutting down
+	tree.quit.call_deferred(exit_code)
+
+	return MCPProtocol.create_response(request_id, "quit", {
+		"success": true
+	})
+
+
+## Run several operations back to back in the current frame, so the game can't
+## tick between them. Screenshots are taken once that frame has been drawn, so
+## they show the result of the whole batch.
+func _handle_batch(request_id: String, payload: Variant) -> Dictionary:
+	if not payload is Dictionary or not payload.get("operations") is Array:
+		return MCPProtocol.create_error_response(
+			request_id, "batch", "INVALID_PARAMS", "Missing 'operations' array"
+		)
+
+	var operations: Array = payload["operations"]
+	var stop_on_error: bool = payload.get("stopOnError", false)
+	var results := []
+	var screenshots: Array[int] = []
+
+	for operation in operations:
+		var op: String = operation.get("op", "") if operation is Dictionary else ""
+		var response: Dictionary
+
+		if op == "screenshot":
+			screenshots.append(results.size())
+			response = MCPProtocol.create_response(request_id, "screenshot", null)
+		elif op == "get" and operation.has("property"):
+			response = _get_property(request_id, operation)
+		elif op == "input" and INPUT_COMMANDS.has(operation.get("type", "")):
+			# None of these commands wait, so the batch stays within the frame
+			response = await execute({
+				"id": request_id,
+				"type": "request",
+				"command": INPUT_COMMANDS[operation["type"]],
+				"payload": operation.get("data", {})
+			})
+		elif BATCH_OPERATIONS.has(op):
+			response = await execute({
+				"id": request_id, "type": "request", "command": BATCH_OPERATIONS[op], "payload": operation
+			})
+		else:
+			response = MCPProtocol.create_error_response(
+				request_id, "batch", "INVALID_PARAMS", "Unknown batch operation: " + JSON.stringify(operation)
+			)
+
+		results.append(_batch_result(op, response))
+		if stop_on_error and response.has("error"):
+			break
+
+	if not screenshots.is_empty():
+		await RenderingServer.frame_post_draw
+		for index in screenshots:
+			var format: String = operations[index].get("format", "png")
+			results[index] = _batch_result("screenshot", _capture_viewport(request_id, format))
+
+	return MCPProtocol.create_response(request_id, "batch", {
+		"results": results,
+		"completed": results.size(),
+		"total": operations.size()
+	})
+
+
+func _batch_result(op: String, response: Dictionary) -> Dictionary:
+	if response.has("error"):
+		return {"op": op, "ok": false, "error": response["error"]}
+	return {"op": op, "ok": true, "result": response.get("payload")}
+
+
+func _get_property(request_id: String, payload: Dictionary) -> Dictionary:
+	var node_path: String = payload.get("path", "")
+	var property: String = payload.get("property", "")
+	var node := _get_node_by_path(node_path)
+
+	if node == null:
+		return MCPProtocol.create_error_response(
+			request_id, "get_node", "NODE_NOT_FOUND", "Node not found: " + node_path
+		)
+
+	if not property in node:
+		return MCPProtocol.create_error_response(
+			request_id, "get_node", "PROPERTY_NOT_FOUND", "Property not found: " + property
+		)
+
+	return MCPProtocol.create_response(request_id, "get_node", {
+		"value": MCPVariant.encode(node.get(property))
+	})
+
+
 # Helper functions
 
+## Encode the main viewport's current image; call after frame_post_draw
+func _capture_viewport(request_id: String, format: String) -> Dictionary:
+	var viewport := _get_main_viewport()
+	if viewport == null:
+		return MCPProtocol.create_error_response(
+			request_id, "screenshot", "NO_VIEWPORT", "Could not find main viewport"
+		)
+
+	var img := viewport.get_texture().get_image()
+	if img == null:
+		return MCPProtocol.create_error_response(
+			request_id, "screenshot", "CAPTURE_FAILED", "Failed to capture viewport image"
+		)
+
+	var buffer: PackedByteArray
+	match format:
+		"jpeg", "jpg":
+			buffer = img.save_jpg_to_buffer()
+		_:
+			buffer = img.save_png_to_buffer()
+
+	return MCPProtocol.create_response(request_id, "screenshot", {
+		"data": Marshalls.raw_to_base64(buffer),
+		"width": img.get_width(),
+		"height": img.get_height()
+	})
+
+
 func _get_main_viewport() -> Viewport:
 	var tree := Engine.get_main_loop() as SceneTree
 	if tree:
@@ -376,29 +540,7 @@ func _get_exported_properties(node: Node) -> Dictionary:
 	for prop in prop_list:
 		# Only include exported properties (PROPERTY_USAGE_EDITOR)
 		if prop.usage & PROPERTY_USAGE_EDITOR:
-			var value = node.get(prop.name)
-			# Only include serializable values
-			if _is_serializable(value):
-				props[prop.name] = value
+			props[prop.name] = MCPVariant.encode(node.get(prop.name))
 
 	return props
 
-
-func _is_serializable(value: Variant) -> bool:
-	match typeof(value):
-		TYPE_NIL, TYPE_BOOL, TYPE_INT, TYPE_FLOAT, TYPE_STRING:
-			return true
-		TYPE_VECTOR2, TYPE_VECTOR2I, TYPE_VECTOR3, TYPE_VECTOR3I:
-			return true
-		TYPE_COLOR, TYPE_RECT2, TYPE_RECT2I:
-			return true
-		TYPE_ARRAY, TYPE_DICTIONARY:
-			return true
-		TYPE_PACKED_BYTE_ARRAY, TYPE_PACKED_INT32_ARRAY, TYPE_PACKED_INT64_ARRAY:
-			return true
-		TYPE_PACKED_FLOAT32_ARRAY, TYPE_PACKED_FLOAT64_ARRAY:
-			return true
-		TYPE_PACKED_STRING_ARRAY, TYPE_PACKED_VECTOR2_ARRAY, TYPE_PACKED_VECTOR3_ARRAY:
-			return true
-		_:
-			return false
@@ -5,6 +5,11 @@ extends RefCounted
 const PREFIX := "[MCP_BRIDGE:"
 const SUFFIX := "]"
 
+# Messages whose base64 is longer than this are split into chunk lines,
+# [MCP_BRIDGE:~<message id>:<seq>:<final>:<base64 fragment>]
+const CHUNK_MARKER := "~"
+const CHUNK_SIZE := 65536
+
 
 ## Encode a message dictionary to the bridge format
 static func encode(msg: Dictionary) -> String:
@@ -13,6 +18,23 @@ static func encode(msg: Dictionary) -> String:
 	return PREFIX + b64 + SUFFIX
 
 
+## Encode a message as one line, or as chunk lines when it is too large for one
+static func encode_lines(msg: Dictionary) -> PackedStringArray:
+	var b64 := Marshalls.utf8_to_base64(JSON.stringify(msg))
+	if b64.length() <= CHUNK_SIZE:
+		return PackedStringArray([PREFIX + b64 + SUFFIX])
+
+	var message_id: String = msg.get("id", _generate_uuid())
+	var count := ceili(float(b64.length()) / CHUNK_SIZE)
+	var lines := PackedStringArray()
+	for seq in range(count):
+		lines.append("%s%s%s:%d:%d:%s%s" % [
+			PREFIX, CHUNK_MARKER, message_id, seq, 1 if seq == count - 1 else 0,
+			b64.substr(seq * CHUNK_SIZE, CHUNK_SIZE), SUFFIX
+		])
+	return lines
+
+
 ## Decode a bridge message from a line of text
 ## Returns null if the line is not a valid bridge message
 static func decode(line: String) -> Variant:
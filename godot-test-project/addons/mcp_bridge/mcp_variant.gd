@@ -0,0 +1,336 @@
+class_name MCPVariant
+extends RefCounted
+## Tagged JSON encoding of Variants for MCP bridge messages
+##
+## Null, bools, numbers, strings, arrays and string-keyed dictionaries stay plain
+## JSON. Every other type becomes a dictionary tagged with its type name, e.g.
+## {"$type": "Vector2", "x": 1, "y": 2}. The server describes the same encoding
+## as VariantValue in src/bridge/types.ts.
+
+const TAG := "$type"
+
+# Integers beyond this lose precision as JSON numbers, so they're sent as strings
+const MAX_SAFE_INTEGER := 9007199254740991
+
+
+## Encode a Variant as JSON-compatible data
+static func encode(value: Variant) -> Variant:
+	match typeof(value):
+		TYPE_NIL, TYPE_BOOL, TYPE_STRING:
+			return value
+		TYPE_INT:
+			if value > MAX_SAFE_INTEGER or value < -MAX_SAFE_INTEGER:
+				return {TAG: "int", "value": str(value)}
+			return value
+		TYPE_FLOAT:
+			if is_nan(value):
+				return {TAG: "float", "value": "nan"}
+			if is_inf(value):
+				return {TAG: "float", "value": "inf" if value > 0 else "-inf"}
+			return value
+		TYPE_VECTOR2, TYPE_VECTOR2I, TYPE_VECTOR3, TYPE_VECTOR3I, TYPE_VECTOR4, TYPE_VECTOR4I, TYPE_QUATERNION, TYPE_COLOR:
+			return _tagged(value, _components(value))
+		TYPE_RECT2, TYPE_RECT2I, TYPE_AABB:
+			return _tagged(value, {"position": _components(value.position), "size": _components(value.size)})
+		TYPE_PLANE:
+			return _tagged(value, {"normal": _components(value.normal), "d": value.d})
+		TYPE_TRANSFORM2D:
+			return _tagged(value, {
+				"x": _components(value.x),
+				"y": _components(value.y),
+				"origin": _components(value.origin)
+			})
+		TYPE_BASIS:
+			return _tagged(value, _basis_components(value))
+		TYPE_TRANSFORM3D:
+			return _tagged(value, {"basis": _basis_components(value.basis), "origin": _components(value.origin)})
+		TYPE_PROJECTION:
+			return _tagged(value, {
+				"x": _components(value.x),
+				"y": _components(value.y),
+				"z": _components(value.z),
+				"w": _components(value.w)
+			})
+		TYPE_STRING_NAME, TYPE_NODE_PATH:
+			return _tagged(value, {"value": str(value)})
+		TYPE_RID:
+			return _tagged(value, {"id": str(value.get_id())})
+		TYPE_OBJECT:
+			return _encode_object(value)
+		TYPE_CALLABLE:
+			return _tagged(value, {"object": _encode_object(value.get_object()), "method": str(value.get_method())})
+		TYPE_SIGNAL:
+			return _tagged(value, {"object": _encode_object(value.get_object()), "signal": str(value.get_name())})
+		TYPE_DICTIONARY:
+			return _encode_dictionary(value)
+		TYPE_ARRAY:
+			var items := []
+			for item in value:
+				items.append(encode(item))
+			return items
+		TYPE_PACKED_BYTE_ARRAY:
+			return _tagged(value, {"base64": Marshalls.raw_to_base64(value)})
+		TYPE_PACKED_INT32_ARRAY, TYPE_PACKED_INT64_ARRAY, TYPE_PACKED_FLOAT32_ARRAY, TYPE_PACKED_FLOAT64_ARRAY:
+			var numbers := []
+			for item in value:
+				numbers.append(encode(item))
+			return _tagged(value, {"values": numbers})
+		TYPE_PACKED_STRING_ARRAY:
+			return _tagged(value, {"values": Array(value)})
+		TYPE_PACKED_VECTOR2_ARRAY, TYPE_PACKED_VECTOR3_ARRAY, TYPE_PACKED_VECTOR4_ARRAY, TYPE_PACKED_COLOR_ARRAY:
+			var points := []
+			for item in value:
+				points.append(_components(item))
+			return _tagged(value, {"values": points})
+
+	# Any types added in newer engine versions
+	return _tagged(value, {"value": var_to_str(value)})
+
+
+## Decode JSON data into a Variant, appending a message to errors for anything
+## that can't be decoded (which then becomes null)
+static func decode(data: Variant, errors: Array[String] = []) -> Variant:
+	match typeof(data):
+		TYPE_ARRAY:
+			var items := []
+			for item in data:
+				items.append(decode(item, errors))
+			return items
+		TYPE_DICTIONARY:
+			if data.has(TAG):
+				return _decode_tagged(data, errors)
+			var result := {}
+			for key in data:
+				result[key] = decode(data[key], errors)
+			return result
+
+	return data
+
+
+static func _decode_tagged(data: Dictionary, errors: Array[String]) -> Variant:
+	var type_name := str(data[TAG])
+	match type_name:
+		"int":
+			return int(data.get("value", 0))
+		"float":
+			match str(data.get("value", 0)):
+				"inf":
+					return INF
+				"-inf":
+					return -INF
+				"nan":
+					return NAN
+			return float(data.get("value", 0))
+		"Vector2":
+			return _vector2(data)
+		"Vector2i":
+			return Vector2i(_vector2(data))
+		"Vector3":
+			return _vector3(data)
+		"Vector3i":
+			return Vector3i(_vector3(data))
+		"Vector4":
+			return _vector4(data)
+		"Vector4i":
+			return Vector4i(_vector4(data))
+		"Quaternion":
+			var v := _vector4(data)
+			return Quaternion(v.x, v.y, v.z, v.w)
+		"Color":
+			return _color(data)
+		"Rect2":
+			return Rect2(_vector2(data.get("position")), _vector2(data.get("size")))
+		"Rect2i":
+			return Rect2i(Vector2i(_vector2(data.get("position"))), Vector2i(_vector2(data.get("size"))))
+		"AABB":
+			return AABB(_vector3(data.get("position")), _vector3(data.get("size")))
+		"Plane":
+			return Plane(_vector3(data.get("normal")), _number(data, "d"))
+		"Transform2D":
+			return Transform2D(_vector2(data.get("x")), _vector2(data.get("y")), _vector2(data.get("origin")))
+		"Basis":
+			return _basis(data)
+		"Transform3D":
+			return Transform3D(_basis(data.get("basis")), _vector3(data.get("origin")))
+		"Projection":
+			return Projection(
+				_vector4(data.get("x")), _vector4(data.get("y")), _vector4(data.get("z")), _vector4(data.get("w"))
+			)
+		"StringName":
+			return StringName(str(data.get("value", "")))
+		"NodePath":
+			return NodePath(str(data.get("value", "")))
+		"RID":
+			return rid_from_int64(int(data.get("id", 0)))
+		"Object", "Resource":
+			return _decode_object(data, errors)
+		"Callable":
+			var target: Variant = _decode_object(data.get("object"), errors)
+			return Callable(target, StringName(str(data.get("method", "")))) if target else Callable()
+		"Signal":
+			var source: Variant = _decode_object(data.get("object"), errors)
+			return Signal(source, StringName(str(data.get("signal", "")))) if source else Signal()
+		"Dictionary":
+			var result := {}
+			for entry in data.get("entries", []):
+				if entry is Array and entry.size() == 2:
+					result[decode(entry[0], errors)] = decode(entry[1], errors)
+				else:
+					errors.append("Dictionary entries must be [key, value] pairs")
+			return result
+		"PackedByteArray":
+			return Marshalls.base64_to_raw(str(data.get("base64", "")))
+		"PackedInt32Array":
+			return PackedInt32Array(_values(data, errors))
+		"PackedInt64Array":
+			return PackedInt64Array(_values(data, errors))
+		"PackedFloat32Array":
+			return PackedFloat32Array(_values(data, errors))
+		"PackedFloat64Array":
+			return PackedFloat64Array(_values(data, errors))
+		"PackedStringArray":
+			return PackedStringArray(_values(data, errors))
+		"PackedVector2Array":
+			var points := PackedVector2Array()
+			for item in _values(data, errors):
+				points.append(_vector2(item))
+			return points
+		"PackedVector3Array":
+			var points := PackedVector3Array()
+			for item in _values(data, errors):
+				points.append(_vector3(item))
+			return points
+		"PackedVector4Array":
+			var points := PackedVector4Array()
+			for item in _values(data, errors):
+				points.append(_vector4(item))
+			return points
+		"PackedColorArray":
+			var colors := PackedColorArray()
+			for item in _values(data, errors):
+				colors.append(_color(item))
+			return colors
+
+	errors.append("Unknown %s: %s" % [TAG, type_name])
+	return null
+
+
+static func _tagged(value: Variant, fields: Dictionary) -> Dictionary:
+	var result := {TAG: type_string(typeof(value))}
+	result.merge(fields)
+	return result
+
+
+## Plain component dictionary of a vector or color, as used inside compound types
+static func _components(value: Variant) -> Dictionary:
+	match typeof(value):
+		TYPE_VECTOR2, TYPE_VECTOR2I:
+			return {"x": value.x, "y": value.y}
+		TYPE_VECTOR3, TYPE_VECTOR3I:
+			return {"x": value.x, "y": value.y, "z": value.z}
+		TYPE_COLOR:
+			return {"r": value.r, "g": value.g, "b": value.b, "a": value.a}
+	return {"x": value.x, "y": value.y, "z": value.z, "w": value.w}
+
+
+static func _basis_components(basis: Basis) -> Dictionary:
+	return {"x": _components(basis.x), "y": _components(basis.y), "z": _components(basis.z)}
+
+
+static func _encode_object(obj: Object) -> Variant:
+	if obj == null or not is_instance_valid(obj):
+		return null
+
+	var result := {TAG: "Object", "class": obj.get_class(), "id": str(obj.get_instance_id())}
+	if obj is Resource:
+		result[TAG] = "Resource"
+		if not obj.resource_path.is_empty():
+			result["path"] = obj.resource_path
+	elif obj is Node and obj.is_inside_tree():
+		result["path"] = str(obj.get_path())
+	return result
+
+
+## Resolve an object reference by instance ID, or by res:// path for resources
+## and absolute node path for nodes
+static func _decode_object(data: Variant, errors: Array[String]) -> Variant:
+	if data == null:
+		return null
+	if not data is Dictionary:
+		errors.append("Object references must be {\"%s\": \"Object\"} or {\"%s\": \"Resource\"} dictionaries" % [TAG, TAG])
+		return null
+
+	var id := str(data.get("id", ""))
+	if not id.is_empty():
+		var obj := instance_from_id(int(id))
+		if obj == null:
+			errors.append("No object with instance ID " + id)
+		return obj
+
+	var path := str(data.get("path", ""))
+	if data.get(TAG) == "Resource":
+		if not ResourceLoader.exists(path):
+			errors.append("Resource not found: " + path)
+			return null
+		return load(path)
+
+	var tree := Engine.get_main_loop() as SceneTree
+	var node: Node = null
+	if tree and not path.is_empty():
+		node = tree.root.get_node_or_null(path)
+	if node == null:
+		errors.append("Object references need an 'id' or an existing node 'path'")
+	return node
+
+
+static func _encode_dictionary(dict: Dictionary) -> Dictionary:
+	var plain := not dict.has(TAG)
+	for key in dict:
+		if typeof(key) != TYPE_STRING:
+			plain = false
+			break
+
+	if plain:
+		var result := {}
+		for key in dict:
+			result[key] = encode(dict[key])
+		return result
+
+	var entries := []
+	for key in dict:
+		entries.append([encode(key), encode(dict[key])])
+	return {TAG: "Dictionary", "entries": entries}
+
+
+static func _values(data: Dictionary, errors: Array[String]) -> Array:
+	var values: Variant = data.get("values", [])
+	if not values is Array:
+		errors.append("'values' of %s must be an array" % data[TAG])
+		return []
+	return decode(values, errors)
+
+
+static func _number(data: Variant, key: String, fallback: float = 0.0) -> float:
+	return float(data.get(key, fallback)) if data is Dictionary else fallback
+
+
+static func _vector2(data: Variant) -> Vector2:
+	return Vector2(_number(data, "x"), _number(data, "y"))
+
+
+static func _vector3(data: Variant) -> Vector3:
+	return Vector3(_number(data, "x"), _number(data, "y"), _number(data, "z"))
+
+
+static func _vector4(data: Variant) -> Vector4:
+	return Vector4(_number(data, "x"), _number(data, "y"), _number(data, "z"), _number(data, "w"))
+
+
+static func _color(data: Variant) -> Color:
+	return Color(_number(data, "r"), _number(data, "g"), _number(data, "b"), _number(data, "a", 1.0))
+
+
+static func _basis(data: Variant) -> Basis:
+	if not data is Dictionary:
+		return Basis.IDENTITY
+	return Basis(_vector3(data.get("x")), _vector3(data.get("y")), _vector3(data.get("z")))
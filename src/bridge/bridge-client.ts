@@ -1,12 +1,50 @@
 /**
- * Bridge client for communicating with Godot addon via stdin/stdout
+ * Bridge client for communicating with the Godot addon over a transport
+ * (stdin/stdout for launched runs, TCP for attached games)
  */
 
-import type { ChildProcess } from "child_process";
 import { randomUUID } from "crypto";
 import { EventEmitter } from "events";
-import { encodeMessage, extractMessages } from "./protocol.js";
-import type { BridgeMessage, HandshakeResponse } from "./types.js";
+import { ADDON_VERSION, ChunkAssembler, checkProtocolVersion, encodeMessage, PROTOCOL_VERSION } from "./protocol.js";
+import type { BridgeTransport } from "./transport.js";
+import type { BridgeMessage, HandshakePayload, HandshakeResponse } from "./types.js";
+
+// Printed by the addon's autoload once it is reading stdin
+const READY_MARKER = "[MCP Bridge] Initialized and ready";
+
+const HANDSHAKE_ATTEMPT_TIMEOUT_MS = 2000;
+const INITIAL_RETRY_DELAY_MS = 250;
+const MAX_RETRY_DELAY_MS = 4000;
+
+// Largest message reassembled from chunks unless configured otherwise
+const DEFAULT_MAX_PAYLOAD_BYTES = 64 * 1024 * 1024;
+
+// Pings are answered on the game's next frame, so a short timeout suffices
+const PING_TIMEOUT_MS = 1000;
+
+/**
+ * Connection state of the bridge:
+ * - connecting: handshake attempts are in progress
+ * - connected: the addon answered the handshake
+ * - unavailable: the addon never answered (likely not installed)
+ * - lost: the addon was connected but the game went away
+ * - incompatible: the addon answered with a protocol version this server can't speak
+ */
+export type BridgeState = "connecting" | "connected" | "unavailable" | "lost" | "incompatible";
+
+/**
+ * Liveness check once connected: ping every intervalMs (0 disables), and treat the
+ * game as unresponsive after maxMissed pings in a row get no answer
+ */
+export interface HeartbeatOptions {
+  intervalMs: number;
+  maxMissed: number;
+}
+
+export interface BridgeClientOptions {
+  heartbeat?: HeartbeatOptions | undefined;
+  maxPayloadBytes?: number | undefined;
+}
 
 interface PendingRequest {
   resolve: (response: BridgeMessage) => void;
@@ -15,57 +53,80 @@ interface PendingRequest {
 }
 
 export class BridgeClient extends EventEmitter {
-  private process: ChildProcess;
-  private buffer: string = "";
+  private transport: BridgeTransport;
   private pendingRequests: Map<string, PendingRequest> = new Map();
-  private _isConnected: boolean = false;
+  private _state: BridgeState = "connecting";
+  private wakeRetry: (() => void) | null = null;
+  private connecting: Promise<boolean> | null = null;
   private _capabilities: string[] = [];
   private _version: string = "";
+  private _addonVersion: string = "";
+  private _incompatibility: string | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private pingInFlight = false;
+  private missedPings = 0;
+  private _lastResponseAt: Date | null = null;
+  private _unresponsive = false;
+  private heartbeatOptions: HeartbeatOptions | undefined;
+  private chunks: ChunkAssembler;
 
-  constructor(process: ChildProcess) {
+  constructor(transport: BridgeTransport, options: BridgeClientOptions = {}) {
     super();
-    this.process = process;
-    this.setupStdoutParser();
-    this.setupProcessHandlers();
+    this.transport = transport;
+    this.heartbeatOptions = options.heartbeat;
+    this.chunks = new ChunkAssembler(options.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES);
+    this.setupTransportHandlers();
   }
 
-  private setupStdoutParser(): void {
-    this.process.stdout?.on("data", (chunk: Buffer) => {
-      this.buffer += chunk.toString();
-      this.processBuffer();
+  private setupTransportHandlers(): void {
+    // Non-bridge text is emitted as stdout for capture
+    this.transport.on("stdout", (text) => {
+      this.emit("stdout", text);
+
+      // The addon just came up; retry the handshake now rather than after backoff
+      if (text.includes(READY_MARKER)) {
+        this.wakeRetry?.();
+      }
     });
-  }
 
-  private setupProcessHandlers(): void {
-    this.process.on("exit", () => {
-      this._isConnected = false;
-      this.rejectAllPending(new Error("Process exited"));
-      this.emit("disconnected");
+    this.transport.on("message", (msg) => this.handleMessage(msg));
+
+    this.transport.on("chunk", (chunk) => {
+      this.markAlive();
+      try {
+        const msg = this.chunks.add(chunk);
+        if (msg) {
+          this.handleMessage(msg);
+        }
+      } catch (error) {
+        // Fail the request whose response this was rather than letting it time out
+        this.rejectPending(chunk.id, error as Error);
+      }
     });
 
-    this.process.on("error", () => {
-      this._isConnected = false;
-      this.rejectAllPending(new Error("Process error"));
+    this.transport.on("closed", () => {
+      this.chunks.reset();
+      this.markGone();
+      this.rejectAllPending(new Error("Bridge connection closed"));
       this.emit("disconnected");
     });
   }
 
-  private processBuffer(): void {
-    const { messages, remaining, nonBridgeText } = extractMessages(this.buffer);
-    this.buffer = remaining;
-
-    // Emit non-bridge text as stdout for capture
-    if (nonBridgeText) {
-      this.emit("stdout", nonBridgeText);
-    }
-
-    // Handle each decoded message
-    for (const msg of messages) {
-      this.handleMessage(msg);
+  private markGone(): void {
+    this.stopHeartbeat();
+    // A closed bridge is lost, not hung
+    this._unresponsive = false;
+    if (this._state === "connected") {
+      this._state = "lost";
+    } else if (this._state === "connecting") {
+      this._state = "unavailable";
     }
+    this.wakeRetry?.();
   }
 
   private handleMessage(msg: BridgeMessage): void {
+    this.markAlive();
+
     if (msg.type === "response") {
       const pending = this.pendingRequests.get(msg.id);
       if (pending) {
@@ -77,12 +138,24 @@ export class BridgeClient extends EventEmitter {
         } else {
           pending.resolve(msg);
         }
+      } else if (msg.command === "handshake" && !msg.error && this._state === "connecting") {
+        // A handshake that timed out while the game was loading was answered late
+        this.acceptHandshake(msg.payload as HandshakeResponse);
       }
     } else if (msg.type === "event") {
       this.emit("event", msg);
     }
   }
 
+  private rejectPending(id: string, error: Error): void {
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(id);
+      pending.reject(error);
+    }
+  }
+
   private rejectAllPending(error: Error): void {
     for (const [id, pending] of this.pendingRequests) {
       clearTimeout(pending.timeout);
@@ -91,6 +164,65 @@ export class BridgeClient extends EventEmitter {
     }
   }
 
+  private markAlive(): void {
+    this._lastResponseAt = new Date();
+    this.missedPings = 0;
+    if (this._unresponsive) {
+      this._unresponsive = false;
+      this.emit("responsive");
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (!this.heartbeatOptions || this.heartbeatOptions.intervalMs <= 0 || this.heartbeat) {
+      return;
+    }
+    this.heartbeat = setInterval(() => void this.ping(), this.heartbeatOptions.intervalMs);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private async ping(): Promise<void> {
+    // A ping still waiting means the previous interval already counts as missed
+    if (this.pingInFlight || !this.heartbeatOptions) {
+      return;
+    }
+
+    const sentAt = Date.now();
+    this.pingInFlight = true;
+    try {
+      await this.sendRequest("ping", {}, Math.min(PING_TIMEOUT_MS, this.heartbeatOptions.intervalMs));
+    } catch {
+      // Any message since sending (even an error reply from an addon without ping) shows the game is alive
+      if ((this._lastResponseAt?.getTime() ?? 0) < sentAt && this._state === "connected") {
+        this.missedPings++;
+        if (this.missedPings >= this.heartbeatOptions.maxMissed && !this._unresponsive) {
+          this._unresponsive = true;
+          this.rejectAllPending(this.unresponsiveError());
+          this.emit("unresponsive");
+        }
+      }
+    } finally {
+      this.pingInFlight = false;
+    }
+  }
+
+  private unresponsiveError(): Error {
+    const silentFor = this._lastResponseAt
+      ? `${Math.round((Date.now() - this._lastResponseAt.getTime()) / 1000)}s`
+      : "ever since connecting";
+    return new Error(
+      `Game is unresponsive: the MCP Bridge addon has not answered for ${silentFor} ` +
+      `(${this.missedPings} missed heartbeats). Its main thread may be stuck in a loop or a long operation.`
+    );
+  }
+
   /**
    * Send a request to the Godot addon and wait for response
    */
@@ -99,9 +231,13 @@ export class BridgeClient extends EventEmitter {
     payload: unknown,
     timeoutMs = 5000
   ): Promise<T> {
-    if (!this._isConnected && command !== "handshake") {
+    if (this._state !== "connected" && command !== "handshake") {
       throw new Error("Bridge not connected");
     }
+    // Fail fast rather than waiting out the timeout; pings keep checking for recovery
+    if (this._unresponsive && command !== "ping") {
+      throw this.unresponsiveError();
+    }
 
     const id = randomUUID();
     const msg: BridgeMessage = { id, type: "request", command, payload };
@@ -118,11 +254,34 @@ export class BridgeClient extends EventEmitter {
         timeout,
       });
 
-      const encoded = encodeMessage(msg);
-      this.process.stdin?.write(encoded + "\n");
+      this.transport.send(encodeMessage(msg));
     });
   }
 
+  private acceptHandshake(response: HandshakeResponse): void {
+    this._version = response.version || "unknown";
+    this._addonVersion = response.addonVersion || "";
+
+    const incompatibility = checkProtocolVersion(this._version, this._addonVersion);
+    if (incompatibility) {
+      this.markIncompatible(incompatibility);
+      return;
+    }
+
+    this._capabilities = response.capabilities || [];
+    this._state = "connected";
+    this.wakeRetry?.();
+    this.startHeartbeat();
+    this.emit("connected");
+  }
+
+  private markIncompatible(reason: string): void {
+    this._state = "incompatible";
+    this._incompatibility = reason;
+    this.wakeRetry?.();
+    this.emit("incompatible", reason);
+  }
+
   /**
    * Attempt to establish connection with the addon via handshake
    */
@@ -130,19 +289,76 @@ export class BridgeClient extends EventEmitter {
     try {
       const response = await this.sendRequest<HandshakeResponse>(
         "handshake",
-        { version: "1.0" },
+        { version: PROTOCOL_VERSION } satisfies HandshakePayload,
         timeoutMs
       );
 
-      this._isConnected = true;
-      this._capabilities = response.capabilities || [];
-      this._version = response.version || "unknown";
+      if (this._state === "connecting") {
+        this.acceptHandshake(response);
+      }
+    } catch (error) {
+      // Addons from protocol 1.1 on refuse a server with a different major version
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith("INCOMPATIBLE_VERSION:") && this._state === "connecting") {
+        this.markIncompatible(
+          `${message.slice("INCOMPATIBLE_VERSION:".length).trim()}. ` +
+          `Install MCP Bridge addon v${ADDON_VERSION} in the project, which matches this server.`
+        );
+      }
+    }
+    return this._state === "connected";
+  }
 
-      return true;
-    } catch {
-      this._isConnected = false;
-      return false;
+  /**
+   * Retry the handshake with exponential backoff until it succeeds, the process
+   * exits, or the deadline passes. The addon's ready line triggers an immediate retry.
+   */
+  connect(deadlineMs: number): Promise<boolean> {
+    this.connecting ??= this.retryHandshake(deadlineMs);
+    return this.connecting;
+  }
+
+  /**
+   * Resolve once connect() has settled, with whether the bridge connected
+   */
+  waitForConnection(): Promise<boolean> {
+    return this.connecting ?? Promise.resolve(this.connected);
+  }
+
+  private async retryHandshake(deadlineMs: number): Promise<boolean> {
+    const deadline = Date.now() + deadlineMs;
+    let delay = INITIAL_RETRY_DELAY_MS;
+
+    while (this._state === "connecting") {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+
+      if (await this.handshake(Math.min(HANDSHAKE_ATTEMPT_TIMEOUT_MS, remaining))) {
+        return true;
+      }
+
+      await this.sleepUntilRetry(Math.min(delay, Math.max(0, deadline - Date.now())));
+      delay = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
     }
+
+    if (this._state === "connecting") {
+      this._state = "unavailable";
+    }
+    return this._state === "connected";
+  }
+
+  private sleepUntilRetry(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timeout);
+        this.wakeRetry = null;
+        resolve();
+      };
+      const timeout = setTimeout(wake, ms);
+      this.wakeRetry = wake;
+    });
   }
 
   /**
@@ -156,7 +372,42 @@ export class BridgeClient extends EventEmitter {
    * Whether the bridge is connected to the addon
    */
   get connected(): boolean {
-    return this._isConnected;
+    return this._state === "connected";
+  }
+
+  /**
+   * Current connection state
+   */
+  get state(): BridgeState {
+    return this._state;
+  }
+
+  /**
+   * Whether the addon stopped answering heartbeats while connected
+   */
+  get unresponsive(): boolean {
+    return this._unresponsive;
+  }
+
+  /**
+   * When the addon last sent anything, or null if it never has
+   */
+  get lastResponseAt(): Date | null {
+    return this._lastResponseAt;
+  }
+
+  /**
+   * Why the addon can't be used, when the state is incompatible
+   */
+  get incompatibility(): string | null {
+    return this._incompatibility;
+  }
+
+  /**
+   * Addon release reported in the handshake, empty for addons that predate it
+   */
+  get addonVersion(): string {
+    return this._addonVersion;
   }
 
   /**
@@ -167,7 +418,7 @@ export class BridgeClient extends EventEmitter {
   }
 
   /**
-   * Version string reported by the addon
+   * Bridge protocol version reported by the addon
    */
   get version(): string {
     return this._version;
@@ -177,7 +428,9 @@ export class BridgeClient extends EventEmitter {
    * Clean up resources
    */
   destroy(): void {
+    this.markGone();
     this.rejectAllPending(new Error("Bridge destroyed"));
     this.removeAllListeners();
+    this.transport.close();
   }
 }
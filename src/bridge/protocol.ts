@@ -1,11 +1,65 @@
 /**
  * Protocol encoding/decoding for bridge messages
+ *
+ * Each message is one line, [MCP_BRIDGE:<base64 JSON>]. Large messages from the
+ * addon (screenshots, big scene trees) are split into chunk lines,
+ * [MCP_BRIDGE:~<message id>:<seq>:<final>:<base64 fragment>], whose fragments
+ * concatenate to the base64 of the whole message.
  */
 
 import type { BridgeMessage } from "./types.js";
 
 const PREFIX = "[MCP_BRIDGE:";
 const SUFFIX = "]";
+const CHUNK_MARKER = "~";
+
+const CHUNK_PATTERN = /^~([^:]+):(\d+):([01]):([A-Za-z0-9+/=]*)$/;
+
+/**
+ * Bridge protocol version, MAJOR.MINOR. Addons with the same major version are
+ * compatible (features added in minor versions are covered by capabilities);
+ * a different major version means the message formats changed.
+ */
+export const PROTOCOL_VERSION = "1.1";
+
+// Addon release implementing PROTOCOL_VERSION, named in incompatibility errors
+export const ADDON_VERSION = "1.1.0";
+
+function protocolMajor(version: string): number | null {
+  const match = /^(\d+)\.(\d+)/.exec(version);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Check the protocol version the addon reported in its handshake, returning why it
+ * is incompatible or null if it is fine
+ */
+export function checkProtocolVersion(addonProtocol: string, addonVersion?: string): string | null {
+  const ours = protocolMajor(PROTOCOL_VERSION)!;
+  const theirs = protocolMajor(addonProtocol);
+  if (theirs === ours) {
+    return null;
+  }
+
+  const addon = `MCP Bridge addon${addonVersion ? ` v${addonVersion}` : ""} speaks bridge protocol ${addonProtocol || "(unknown)"}`;
+  if (theirs === null || theirs < ours) {
+    return `${addon}, but this server needs protocol ${ours}.x. ` +
+      `Upgrade the addon in the project to v${ADDON_VERSION} (addons/mcp_bridge from this server's package).`;
+  }
+  return `${addon}, which is newer than this server supports (protocol ${PROTOCOL_VERSION}). ` +
+    `Upgrade the MCP server, or install MCP Bridge addon v${ADDON_VERSION} in the project.`;
+}
+
+/**
+ * One piece of a chunked message
+ */
+export interface BridgeChunk {
+  // ID of the message being sent, i.e. the request ID for responses
+  id: string;
+  seq: number;
+  final: boolean;
+  data: string;
+}
 
 /**
  * Encode a bridge message for transmission via stdin
@@ -25,8 +79,10 @@ export function decodeMessage(line: string): BridgeMessage | null {
     return null;
   }
 
-  const base64 = line.slice(PREFIX.length, -SUFFIX.length);
+  return parseMessage(line.slice(PREFIX.length, -SUFFIX.length));
+}
 
+function parseMessage(base64: string): BridgeMessage | null {
   try {
     const json = Buffer.from(base64, "base64").toString("utf-8");
     const parsed = JSON.parse(json) as BridgeMessage;
@@ -46,6 +102,85 @@ export function decodeMessage(line: string): BridgeMessage | null {
   }
 }
 
+/**
+ * Decode the body of a chunk line (between the prefix and suffix)
+ */
+function decodeChunk(body: string): BridgeChunk | null {
+  const match = CHUNK_PATTERN.exec(body);
+  if (!match) {
+    return null;
+  }
+  return { id: match[1]!, seq: Number(match[2]), final: match[3] === "1", data: match[4]! };
+}
+
+/**
+ * Reassembles chunked messages, refusing any that grow past the payload limit
+ */
+export class ChunkAssembler {
+  private partial = new Map<string, { fragments: string[]; size: number }>();
+  // Messages given up on, whose remaining chunks are ignored
+  private discarded = new Set<string>();
+
+  constructor(private readonly maxPayloadBytes: number) {}
+
+  /**
+   * Add a chunk, returning the message once its final chunk arrives. Throws if the
+   * message is too large or chunks went missing; the rest of it is then ignored.
+   */
+  add(chunk: BridgeChunk): BridgeMessage | null {
+    if (this.discarded.has(chunk.id)) {
+      if (chunk.final) {
+        this.discarded.delete(chunk.id);
+      }
+      return null;
+    }
+
+    const message = this.partial.get(chunk.id) ?? { fragments: [], size: 0 };
+    if (chunk.seq !== message.fragments.length) {
+      this.discard(chunk);
+      throw new Error(`Bridge message ${chunk.id} lost chunks (expected chunk ${message.fragments.length}, got ${chunk.seq})`);
+    }
+
+    message.fragments.push(chunk.data);
+    message.size += Math.floor(chunk.data.length * 3 / 4);
+    if (message.size > this.maxPayloadBytes) {
+      this.discard(chunk);
+      throw new Error(
+        `Bridge message ${chunk.id} exceeds the maximum payload size of ${this.maxPayloadBytes} bytes ` +
+        "(GODOT_BRIDGE_MAX_PAYLOAD_BYTES); request less data, e.g. a smaller screenshot or a subtree"
+      );
+    }
+
+    if (!chunk.final) {
+      this.partial.set(chunk.id, message);
+      return null;
+    }
+
+    this.partial.delete(chunk.id);
+    const decoded = parseMessage(message.fragments.join(""));
+    if (!decoded) {
+      throw new Error(`Bridge message ${chunk.id} could not be decoded after reassembly`);
+    }
+    return decoded;
+  }
+
+  /**
+   * Forget partial and discarded messages, e.g. once the connection closes and
+   * their remaining chunks can no longer arrive
+   */
+  reset(): void {
+    this.partial.clear();
+    this.discarded.clear();
+  }
+
+  private discard(chunk: BridgeChunk): void {
+    this.partial.delete(chunk.id);
+    if (!chunk.final) {
+      this.discarded.add(chunk.id);
+    }
+  }
+}
+
 /**
  * Check if a string contains a bridge message marker
  */
@@ -53,15 +188,29 @@ export function containsBridgeMessage(text: string): boolean {
   return text.includes(PREFIX);
 }
 
+/**
+ * Length of the longest end of text that could be the beginning of PREFIX
+ */
+function partialPrefixLength(text: string): number {
+  for (let length = Math.min(PREFIX.length - 1, text.length); length > 0; length--) {
+    if (PREFIX.startsWith(text.slice(-length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
 /**
  * Extract bridge messages from a text buffer, returning both messages and remaining text
  */
 export function extractMessages(buffer: string): {
   messages: BridgeMessage[];
+  chunks: BridgeChunk[];
   remaining: string;
   nonBridgeText: string;
 } {
   const messages: BridgeMessage[] = [];
+  const chunks: BridgeChunk[] = [];
   let remaining = buffer;
   let nonBridgeText = "";
 
@@ -69,9 +218,11 @@ export function extractMessages(buffer: string): {
     const startIdx = remaining.indexOf(PREFIX);
 
     if (startIdx === -1) {
-      // No more markers, everything is non-bridge text
-      nonBridgeText += remaining;
-      remaining = "";
+      // No more markers, everything is non-bridge text except the start of a
+      // marker cut off at the end of this read
+      const partial = partialPrefixLength(remaining);
+      nonBridgeText += remaining.slice(0, remaining.length - partial);
+      remaining = remaining.slice(remaining.length - partial);
       break;
     }
 
@@ -92,13 +243,22 @@ export function extractMessages(buffer: string): {
     const fullMessage = remaining.slice(startIdx, endIdx + SUFFIX.length);
     remaining = remaining.slice(endIdx + SUFFIX.length);
 
+    const body = fullMessage.slice(PREFIX.length, -SUFFIX.length);
+    if (body.startsWith(CHUNK_MARKER)) {
+      const chunk = decodeChunk(body);
+      if (chunk) {
+        chunks.push(chunk);
+      }
+      continue;
+    }
+
     const decoded = decodeMessage(fullMessage);
     if (decoded) {
       messages.push(decoded);
     }
   }
 
-  return { messages, remaining, nonBridgeText };
+  return { messages, chunks, remaining, nonBridgeText };
 }
 
 export { PREFIX, SUFFIX };
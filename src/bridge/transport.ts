@@ -0,0 +1,130 @@
+/**
+ * Transports carrying bridge messages between the MCP server and the addon
+ *
+ * - StdioTransport: runs launched by the server, with messages interleaved in the game's stdout
+ * - TcpTransport: games started elsewhere (editor, exported build, another machine) that
+ *   listen with --mcp-bridge-port; see attach_to_game
+ *
+ * Both use the same [MCP_BRIDGE:...] line framing (and chunking) from protocol.ts.
+ */
+
+import type { ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import * as net from "net";
+import { extractMessages, type BridgeChunk } from "./protocol.js";
+import type { BridgeMessage } from "./types.js";
+
+export interface BridgeTransportEvents {
+  message: [BridgeMessage];
+  // Piece of a large message, for the client to reassemble
+  chunk: [BridgeChunk];
+  // Output that isn't a bridge message, i.e. the game's own prints
+  stdout: [string];
+  closed: [];
+}
+
+export abstract class BridgeTransport extends EventEmitter<BridgeTransportEvents> {
+  private buffer = "";
+  private isClosed = false;
+
+  /**
+   * Write an encoded message line
+   */
+  abstract send(line: string): void;
+
+  /**
+   * Stop using the transport
+   */
+  abstract close(): void;
+
+  protected receive(text: string): void {
+    this.buffer += text;
+    const { messages, chunks, remaining, nonBridgeText } = extractMessages(this.buffer);
+    this.buffer = remaining;
+
+    if (nonBridgeText) {
+      this.emit("stdout", nonBridgeText);
+    }
+    for (const chunk of chunks) {
+      this.emit("chunk", chunk);
+    }
+    for (const msg of messages) {
+      this.emit("message", msg);
+    }
+  }
+
+  protected markClosed(): void {
+    if (!this.isClosed) {
+      this.isClosed = true;
+      this.emit("closed");
+    }
+  }
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+}
+
+/**
+ * Talks to a launched game over its stdin and stdout
+ */
+export class StdioTransport extends BridgeTransport {
+  constructor(private readonly process: ChildProcess) {
+    super();
+    process.stdout?.on("data", (chunk: Buffer) => this.receive(chunk.toString()));
+    process.on("exit", () => this.markClosed());
+    process.on("error", () => this.markClosed());
+  }
+
+  send(line: string): void {
+    this.process.stdin?.write(line + "\n");
+  }
+
+  close(): void {
+    // The process belongs to the run; only stop treating it as a bridge
+    this.markClosed();
+  }
+}
+
+/**
+ * Talks to the addon's TCP listener
+ */
+export class TcpTransport extends BridgeTransport {
+  private constructor(private readonly socket: net.Socket) {
+    super();
+    socket.setEncoding("utf-8");
+    socket.on("data", (text: string) => this.receive(text));
+    socket.on("close", () => this.markClosed());
+    // 'close' follows, which is what callers care about
+    socket.on("error", () => {});
+  }
+
+  /**
+   * Connect to an addon listening with --mcp-bridge-port
+   */
+  static connect(host: string, port: number, timeoutMs: number): Promise<TcpTransport> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host, port });
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setTimeout(timeoutMs, () => fail(new Error(`Timed out connecting to ${host}:${port}`)));
+      socket.once("error", fail);
+      socket.once("connect", () => {
+        socket.setTimeout(0);
+        socket.off("error", fail);
+        resolve(new TcpTransport(socket));
+      });
+    });
+  }
+
+  send(line: string): void {
+    this.socket.write(line + "\n");
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
@@ -20,7 +20,10 @@ export interface HandshakePayload {
 }
 
 export interface HandshakeResponse {
+  // Bridge protocol version, MAJOR.MINOR
   version: string;
+  // Addon release; absent from addons before protocol 1.1
+  addonVersion?: string;
   capabilities: string[];
 }
 
@@ -34,6 +37,73 @@ export interface ScreenshotResponse {
   height: number;
 }
 
+/**
+ * Godot values travel as JSON. Null, booleans, numbers, strings, arrays and
+ * string-keyed objects stand for themselves; everything else is an object tagged
+ * with its Variant type, e.g. {"$type": "Vector2", "x": 1, "y": 2}. Tagged values
+ * can nest inside arrays and objects. The addon's MCPVariant class implements the
+ * same encoding in both directions.
+ */
+export type VariantValue =
+  | null
+  | boolean
+  | number
+  | string
+  | VariantValue[]
+  | { [key: string]: VariantValue }
+  | TaggedVariant;
+
+interface Vector2Components { x: number; y: number }
+interface Vector3Components { x: number; y: number; z: number }
+interface Vector4Components { x: number; y: number; z: number; w: number }
+interface ColorComponents { r: number; g: number; b: number; a: number }
+
+/**
+ * Reference to a live object by instance ID (a string, as IDs exceed 2^53), or to a
+ * node by path when sending. Resources can also be referenced by res:// path.
+ */
+export type ObjectReference =
+  | { $type: "Object"; id?: string; class?: string; path?: string }
+  | { $type: "Resource"; id?: string; class?: string; path?: string };
+
+export type TaggedVariant =
+  // Forces an integer (JSON numbers arrive as floats); a string value keeps 64-bit precision
+  | { $type: "int"; value: number | string }
+  | { $type: "float"; value: number | "inf" | "-inf" | "nan" }
+  | ({ $type: "Vector2" | "Vector2i" } & Vector2Components)
+  | ({ $type: "Vector3" | "Vector3i" } & Vector3Components)
+  | ({ $type: "Vector4" | "Vector4i" | "Quaternion" } & Vector4Components)
+  | { $type: "Rect2" | "Rect2i"; position: Vector2Components; size: Vector2Components }
+  | { $type: "AABB"; position: Vector3Components; size: Vector3Components }
+  | { $type: "Plane"; normal: Vector3Components; d: number }
+  // Columns, as in the Godot constructors
+  | { $type: "Transform2D"; x: Vector2Components; y: Vector2Components; origin: Vector2Components }
+  | { $type: "Basis"; x: Vector3Components; y: Vector3Components; z: Vector3Components }
+  | {
+    $type: "Transform3D";
+    basis: { x: Vector3Components; y: Vector3Components; z: Vector3Components };
+    origin: Vector3Components;
+  }
+  | { $type: "Projection"; x: Vector4Components; y: Vector4Components; z: Vector4Components; w: Vector4Components }
+  | ({ $type: "Color" } & ColorComponents)
+  | { $type: "StringName" | "NodePath"; value: string }
+  | { $type: "RID"; id: string }
+  | ObjectReference
+  | { $type: "Callable"; object: ObjectReference | null; method: string }
+  | { $type: "Signal"; object: ObjectReference | null; signal: string }
+  // Dictionaries with non-string keys (or a "$type" key)
+  | { $type: "Dictionary"; entries: [VariantValue, VariantValue][] }
+  | { $type: "PackedByteArray"; base64: string }
+  | {
+    $type: "PackedInt32Array" | "PackedInt64Array" | "PackedFloat32Array" | "PackedFloat64Array";
+    values: (number | TaggedVariant)[];
+  }
+  | { $type: "PackedStringArray"; values: string[] }
+  | { $type: "PackedVector2Array"; values: Vector2Components[] }
+  | { $type: "PackedVector3Array"; values: Vector3Components[] }
+  | { $type: "PackedVector4Array"; values: Vector4Components[] }
+  | { $type: "PackedColorArray"; values: ColorComponents[] };
+
 export interface GetNodePayload {
   path: string;
 }
@@ -42,6 +112,8 @@ export interface NodeInfo {
   name: string;
   type: string;
   path: string;
+  // VariantValue, also when read through the remote debugger (there without types
+  // inside arrays and dictionaries)
   properties: Record<string, unknown>;
   children?: NodeInfo[];
 }
@@ -49,13 +121,23 @@ export interface NodeInfo {
 export interface SetPropertyPayload {
   path: string;
   property: string;
-  value: unknown;
+  value: VariantValue;
+}
+
+export interface SetPropertyResponse {
+  success: boolean;
+  // The property's value after setting it, as the engine converted it
+  value?: VariantValue;
 }
 
 export interface CallMethodPayload {
   path: string;
   method: string;
-  args?: unknown[];
+  args?: VariantValue[];
+}
+
+export interface CallMethodResponse {
+  result: VariantValue;
 }
 
 export interface ChangeScenePayload {
@@ -93,3 +175,30 @@ export type InputPayload =
   | { type: "key"; data: InputKeyPayload }
   | { type: "mouse_button"; data: InputMouseButtonPayload }
   | { type: "mouse_motion"; data: InputMouseMotionPayload };
+
+export type BatchOperation =
+  | { op: "get"; path: string; property?: string }
+  | { op: "set"; path: string; property: string; value: VariantValue }
+  | { op: "call"; path: string; method: string; args?: VariantValue[] }
+  | ({ op: "input" } & InputPayload)
+  | { op: "screenshot"; format?: "png" | "jpeg" };
+
+export interface BatchPayload {
+  operations: BatchOperation[];
+  stopOnError?: boolean;
+}
+
+export interface BatchResult {
+  op: string;
+  ok: boolean;
+  // The command's response payload, e.g. NodeInfo, ScreenshotResponse or { value }
+  result?: unknown;
+  error?: BridgeError;
+}
+
+export interface BatchResponse {
+  results: BatchResult[];
+  // Fewer than total when stopOnError ended the batch early
+  completed: number;
+  total: number;
+}
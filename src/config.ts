@@ -1,5 +1,6 @@
 // Configuration validation and setup
 import 'dotenv/config';
+import { createLogger } from './utils/logger.js';
 
 // Get Godot project path from command line arguments, default to cwd
 const projectPath = process.argv[2] || process.cwd();
@@ -7,8 +8,70 @@ const projectPath = process.argv[2] || process.cwd();
 // Get Godot executable path from environment variable
 const godotPath = process.env['GODOT_PATH'];
 if (!godotPath) {
-  console.error("Error: GODOT_PATH environment variable must be set");
+  createLogger("config").error("GODOT_PATH environment variable must be set");
   process.exit(1);
 }
 
-export { godotPath, projectPath };
+// Where to get Godot class documentation from:
+// - github: download the engine source tarball matching the Godot version (default)
+// - doctool: generate docs offline with `godot --doctool`, including GDExtension classes
+// - local: read XML files from GODOT_DOCS_PATH
+const docsSources = ['github', 'doctool', 'local'] as const;
+export type DocsSource = typeof docsSources[number];
+
+const docsSource = (process.env['GODOT_DOCS_SOURCE'] || 'github') as DocsSource;
+if (!docsSources.includes(docsSource)) {
+  createLogger("config").error(`GODOT_DOCS_SOURCE must be one of: ${docsSources.join(", ")}`);
+  process.exit(1);
+}
+
+const docsPath = process.env['GODOT_DOCS_PATH'];
+if (docsSource === 'local' && !docsPath) {
+  createLogger("config").error("GODOT_DOCS_PATH environment variable must be set when GODOT_DOCS_SOURCE is 'local'");
+  process.exit(1);
+}
+
+// Longest delay setTimeout supports; longer ones fire after 1 ms
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function parsePositiveInt(name: string, defaultValue: number, { min = 0, max = Number.MAX_SAFE_INTEGER } = {}): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return defaultValue;
+  }
+  const value = /^\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!(value >= min && value <= max)) {
+    createLogger("config").error(`${name} must be an integer from ${min} to ${max}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Run history retention, applied per project
+const runHistoryMaxRuns = parsePositiveInt('GODOT_RUN_HISTORY_MAX_RUNS', 50, { min: 1 });
+const runHistoryMaxAgeDays = parsePositiveInt('GODOT_RUN_HISTORY_MAX_AGE_DAYS', 14, { min: 1 });
+
+// In-memory cap per output stream of a live run (full logs are archived on disk)
+const runLogMaxBytes = parsePositiveInt('GODOT_RUN_LOG_MAX_BYTES', 1024 * 1024, { min: 1 });
+
+// How long to keep retrying the MCP Bridge handshake after launching a run
+const bridgeConnectTimeoutMs = parsePositiveInt('GODOT_BRIDGE_CONNECT_TIMEOUT_MS', 30000, { min: 1, max: MAX_TIMER_MS });
+
+// Heartbeat pings to connected games (interval 0 to disable), and how many may go
+// unanswered before a run is reported unresponsive
+const bridgeHeartbeatIntervalMs = parsePositiveInt('GODOT_BRIDGE_HEARTBEAT_INTERVAL_MS', 2000, { max: MAX_TIMER_MS });
+const bridgeHeartbeatMaxMissed = parsePositiveInt('GODOT_BRIDGE_HEARTBEAT_MAX_MISSED', 3, { min: 1 });
+
+// Largest message accepted from the addon once reassembled from chunks
+const bridgeMaxPayloadBytes = parsePositiveInt('GODOT_BRIDGE_MAX_PAYLOAD_BYTES', 64 * 1024 * 1024, { min: 1 });
+
+// Cap on runs alive at the same time (0 for no limit)
+const maxConcurrentRuns = parsePositiveInt('GODOT_MAX_CONCURRENT_RUNS', 8);
+
+// How long exited runs stay in memory before only the archive has them (0 to keep them)
+const exitedRunTtlSeconds = parsePositiveInt('GODOT_EXITED_RUN_TTL_SECONDS', 600, { max: Math.floor(MAX_TIMER_MS / 1000) });
+
+// How often to sample CPU, memory, threads and fds of running games (0 to disable)
+const metricsIntervalMs = parsePositiveInt('GODOT_METRICS_INTERVAL_MS', 5000, { max: MAX_TIMER_MS });
+
+export { bridgeConnectTimeoutMs, bridgeHeartbeatIntervalMs, bridgeHeartbeatMaxMissed, bridgeMaxPayloadBytes, metricsIntervalMs, exitedRunTtlSeconds, maxConcurrentRuns, docsPath, docsSource, godotPath, projectPath, runHistoryMaxAgeDays, runHistoryMaxRuns, runLogMaxBytes };
@@ -0,0 +1,357 @@
+/**
+ * Client for Godot's built-in remote debugger protocol
+ *
+ * Godot connects out to the debugger when launched with --remote-debug, so this
+ * client listens on a local TCP port and accepts a single connection from the game.
+ */
+
+import { EventEmitter } from "events";
+import * as net from "net";
+import { encodePacket, extractPackets } from "./protocol.js";
+import type {
+  DebuggerError,
+  DebuggerMessage,
+  DebuggerStackFrame,
+  RemoteNode,
+  RemoteObject,
+  RemoteProperty,
+} from "./types.js";
+
+// Number of array entries per node in a "scene:scene_tree" message
+const SCENE_TREE_NODE_FIELDS = 6;
+
+// Property usage flags for inspector-only entries (categories, groups, subgroups)
+const PROPERTY_USAGE_LAYOUT = 64 | 128 | 256;
+
+const MAX_ERRORS = 1000;
+
+interface PendingReply {
+  resolve: (data: unknown[]) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export class DebuggerClient extends EventEmitter {
+  private server: net.Server;
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pendingReplies: Map<string, PendingReply[]> = new Map();
+  private mainThreadId: number | undefined;
+  private _errors: DebuggerError[] = [];
+  private _port = 0;
+
+  constructor() {
+    super();
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Start listening on an ephemeral local port and return the port number
+   */
+  async listen(host = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(0, host, () => {
+        this.server.off("error", reject);
+        const address = this.server.address();
+        this._port = typeof address === "object" && address ? address.port : 0;
+        resolve(this._port);
+      });
+    });
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    if (this.socket) {
+      // Only one game instance per debugger session
+      socket.destroy();
+      return;
+    }
+
+    this.socket = socket;
+    socket.setNoDelay(true);
+
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.processBuffer();
+    });
+
+    socket.on("close", () => {
+      this.socket = null;
+      this.rejectAllPending(new Error("Debugger connection closed"));
+      this.emit("disconnected");
+    });
+
+    socket.on("error", () => {
+      socket.destroy();
+    });
+
+    this.emit("connected");
+  }
+
+  private processBuffer(): void {
+    try {
+      const { messages, remaining } = extractPackets(this.buffer);
+      this.buffer = remaining;
+
+      for (const msg of messages) {
+        this.handleMessage(msg);
+      }
+    } catch {
+      // Framing is unrecoverable once a length prefix is corrupt
+      this.socket?.destroy();
+    }
+  }
+
+  private handleMessage(msg: DebuggerMessage): void {
+    if (this.mainThreadId === undefined && msg.threadId !== undefined) {
+      this.mainThreadId = msg.threadId;
+    }
+
+    switch (msg.name) {
+      case "error": {
+        const error = parseError(msg.data);
+        this._errors.push(error);
+        if (this._errors.length > MAX_ERRORS) {
+          this._errors.shift();
+        }
+        this.emit("script_error", error);
+        break;
+      }
+      case "debug_enter": {
+        // The game halts on script errors while a debugger is attached; resume it
+        // immediately since the error itself has already been reported
+        const threadId = typeof msg.data[3] === "number" ? msg.data[3] : msg.threadId;
+        this.emit("break", { reason: String(msg.data[1] ?? "") });
+        this.send("continue", [], threadId);
+        break;
+      }
+      case "output":
+        this.emit("output", msg.data);
+        break;
+      case "scene:inspect_objects":
+        this.resolveReply("scene:inspect_object", msg.data);
+        break;
+      default:
+        this.resolveReply(msg.name, msg.data);
+        break;
+    }
+  }
+
+  private resolveReply(name: string, data: unknown[]): void {
+    const queue = this.pendingReplies.get(name);
+    const pending = queue?.shift();
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    if (queue?.length === 0) {
+      this.pendingReplies.delete(name);
+    }
+    pending.resolve(data);
+  }
+
+  private rejectAllPending(error: Error): void {
+    for (const queue of this.pendingReplies.values()) {
+      for (const pending of queue) {
+        clearTimeout(pending.timeout);
+        pending.reject(error);
+      }
+    }
+    this.pendingReplies.clear();
+  }
+
+  /**
+   * Send a message to the game
+   */
+  send(name: string, data: unknown[], threadId = this.mainThreadId): void {
+    if (!this.socket) {
+      throw new Error("Debugger not connected");
+    }
+
+    const msg: DebuggerMessage = threadId !== undefined ? { name, threadId, data } : { name, data };
+    this.socket.write(encodePacket(msg));
+  }
+
+  /**
+   * Send a message and wait for the game to reply with the given message name
+   */
+  private request(name: string, data: unknown[], replyName: string, timeoutMs: number): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        const queue = this.pendingReplies.get(replyName);
+        const index = queue?.indexOf(pending) ?? -1;
+        if (queue && index !== -1) {
+          queue.splice(index, 1);
+        }
+        reject(new Error(`Debugger request '${name}' timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const pending: PendingReply = { resolve, reject, timeout };
+      const queue = this.pendingReplies.get(replyName) ?? [];
+      queue.push(pending);
+      this.pendingReplies.set(replyName, queue);
+
+      try {
+        this.send(name, data);
+      } catch (error) {
+        clearTimeout(timeout);
+        queue.splice(queue.indexOf(pending), 1);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Fetch the live scene tree, rooted at the SceneTree's root window
+   */
+  async requestSceneTree(timeoutMs = 5000): Promise<RemoteNode> {
+    const data = await this.request("scene:request_scene_tree", [], "scene:scene_tree", timeoutMs);
+    const cursor = { index: 0 };
+    return parseRemoteNode(data, cursor, "");
+  }
+
+  /**
+   * Find a node in the live scene tree by absolute path or path relative to /root
+   */
+  async findNode(nodePath: string, timeoutMs = 5000): Promise<RemoteNode | undefined> {
+    const root = await this.requestSceneTree(timeoutMs);
+    const target = nodePath.startsWith("/") ? nodePath : `${root.path}/${nodePath}`;
+
+    const search = (node: RemoteNode): RemoteNode | undefined => {
+      if (node.path === target) {
+        return node;
+      }
+      for (const child of node.children) {
+        const found = search(child);
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    };
+
+    return search(root);
+  }
+
+  /**
+   * Inspect the properties of a remote object by instance ID
+   */
+  async inspectObject(objectId: string, timeoutMs = 5000): Promise<RemoteObject> {
+    let data = await this.request("scene:inspect_object", [BigInt(objectId)], "scene:inspect_object", timeoutMs);
+
+    // Godot 4.4+ replies with a list of inspected objects
+    if (Array.isArray(data[0])) {
+      data = data[0] as unknown[];
+    }
+
+    const properties: RemoteProperty[] = [];
+    for (const entry of (data[2] as unknown[] | undefined) ?? []) {
+      if (!Array.isArray(entry)) {
+        continue;
+      }
+      const usage = Number(entry[4] ?? 0);
+      if (usage & PROPERTY_USAGE_LAYOUT) {
+        continue;
+      }
+      properties.push({ name: String(entry[0]), type: Number(entry[1]), value: entry[5] });
+    }
+
+    return {
+      objectId: String(data[0]),
+      className: String(data[1] ?? ""),
+      properties,
+    };
+  }
+
+  /**
+   * Set a property on a remote object by instance ID
+   */
+  setObjectProperty(objectId: string, property: string, value: unknown): void {
+    this.send("scene:set_object_property", [BigInt(objectId), property, value]);
+  }
+
+  /**
+   * Whether the game has connected to the debugger
+   */
+  get connected(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * Local port the debugger is listening on
+   */
+  get port(): number {
+    return this._port;
+  }
+
+  /**
+   * Errors and warnings reported by the game, oldest first
+   */
+  get errors(): DebuggerError[] {
+    return [...this._errors];
+  }
+
+  /**
+   * Clean up resources
+   */
+  close(): void {
+    this.rejectAllPending(new Error("Debugger closed"));
+    this.socket?.destroy();
+    this.socket = null;
+    this.server.close();
+    this.removeAllListeners();
+  }
+}
+
+function parseError(data: unknown[]): DebuggerError {
+  const [hr, min, sec, msec, file, func, line, error, description, warning, frameCount] = data;
+
+  const callstack: DebuggerStackFrame[] = [];
+  const frameValues = Number(frameCount ?? 0);
+  for (let i = 0; i < frameValues; i += 3) {
+    callstack.push({
+      file: String(data[11 + i] ?? ""),
+      function: String(data[12 + i] ?? ""),
+      line: Number(data[13 + i] ?? 0),
+    });
+  }
+
+  const pad = (value: unknown, length = 2) => String(value ?? 0).padStart(length, "0");
+
+  return {
+    timestamp: `${pad(hr)}:${pad(min)}:${pad(sec)}.${pad(msec, 3)}`,
+    file: String(file ?? ""),
+    function: String(func ?? ""),
+    line: Number(line ?? 0),
+    error: String(error ?? ""),
+    description: String(description ?? ""),
+    warning: Boolean(warning),
+    callstack,
+  };
+}
+
+function parseRemoteNode(data: unknown[], cursor: { index: number }, parentPath: string): RemoteNode {
+  const base = cursor.index;
+  if (base + SCENE_TREE_NODE_FIELDS > data.length) {
+    throw new Error("Malformed scene tree from debugger");
+  }
+  cursor.index += SCENE_TREE_NODE_FIELDS;
+
+  const childCount = Number(data[base]);
+  const name = String(data[base + 1]);
+  const node: RemoteNode = {
+    name,
+    type: String(data[base + 2]),
+    path: `${parentPath}/${name}`,
+    objectId: String(data[base + 3]),
+    sceneFilePath: String(data[base + 4] ?? ""),
+    children: [],
+  };
+
+  for (let i = 0; i < childCount; i++) {
+    node.children.push(parseRemoteNode(data, cursor, node.path));
+  }
+
+  return node;
+}
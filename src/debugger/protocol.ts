@@ -0,0 +1,86 @@
+/**
+ * Packet framing for Godot's remote debugger protocol
+ *
+ * Each packet is a little-endian uint32 length followed by a Variant-encoded Array:
+ * [message, threadId, data] on Godot 4.2+, or [message, data] on earlier 4.x releases.
+ */
+
+import { decodeVariant, encodeVariant } from "./variant.js";
+import type { DebuggerMessage } from "./types.js";
+
+const HEADER_SIZE = 4;
+
+/**
+ * Upper bound on a single packet, guarding against a corrupted length prefix
+ */
+export const MAX_PACKET_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Encode a debugger message into a length-prefixed packet
+ */
+export function encodePacket(msg: DebuggerMessage): Buffer {
+  const array = msg.threadId !== undefined
+    ? [msg.name, msg.threadId, msg.data]
+    : [msg.name, msg.data];
+  const body = encodeVariant(array);
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt32LE(body.length);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Convert a decoded Variant array into a debugger message
+ * Returns null if the value does not look like a debugger message
+ */
+export function toDebuggerMessage(value: unknown): DebuggerMessage | null {
+  if (!Array.isArray(value) || typeof value[0] !== "string") {
+    return null;
+  }
+
+  if (value.length === 3 && typeof value[1] === "number" && Array.isArray(value[2])) {
+    return { name: value[0], threadId: value[1], data: value[2] };
+  }
+
+  if (value.length === 2 && Array.isArray(value[1])) {
+    return { name: value[0], data: value[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Extract complete debugger messages from a byte buffer, returning the unconsumed remainder
+ */
+export function extractPackets(buffer: Buffer): {
+  messages: DebuggerMessage[];
+  remaining: Buffer;
+} {
+  const messages: DebuggerMessage[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= HEADER_SIZE) {
+    const length = buffer.readUInt32LE(offset);
+    if (length > MAX_PACKET_SIZE) {
+      throw new Error(`Debugger packet of ${length} bytes exceeds maximum of ${MAX_PACKET_SIZE}`);
+    }
+
+    if (buffer.length - offset - HEADER_SIZE < length) {
+      // Incomplete packet, wait for more data
+      break;
+    }
+
+    const body = buffer.subarray(offset + HEADER_SIZE, offset + HEADER_SIZE + length);
+    offset += HEADER_SIZE + length;
+
+    try {
+      const msg = toDebuggerMessage(decodeVariant(body));
+      if (msg) {
+        messages.push(msg);
+      }
+    } catch {
+      // Skip packets containing Variant types we can't decode
+    }
+  }
+
+  return { messages, remaining: buffer.subarray(offset) };
+}
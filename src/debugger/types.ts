@@ -0,0 +1,111 @@
+/**
+ * Types for Godot's built-in remote debugger protocol
+ */
+
+/**
+ * Godot 4 Variant type identifiers, as used in the binary encoding header
+ */
+export enum VariantType {
+  NIL = 0,
+  BOOL = 1,
+  INT = 2,
+  FLOAT = 3,
+  STRING = 4,
+  VECTOR2 = 5,
+  VECTOR2I = 6,
+  RECT2 = 7,
+  RECT2I = 8,
+  VECTOR3 = 9,
+  VECTOR3I = 10,
+  TRANSFORM2D = 11,
+  VECTOR4 = 12,
+  VECTOR4I = 13,
+  PLANE = 14,
+  QUATERNION = 15,
+  AABB = 16,
+  BASIS = 17,
+  TRANSFORM3D = 18,
+  PROJECTION = 19,
+  COLOR = 20,
+  STRING_NAME = 21,
+  NODE_PATH = 22,
+  RID = 23,
+  OBJECT = 24,
+  CALLABLE = 25,
+  SIGNAL = 26,
+  DICTIONARY = 27,
+  ARRAY = 28,
+  PACKED_BYTE_ARRAY = 29,
+  PACKED_INT32_ARRAY = 30,
+  PACKED_INT64_ARRAY = 31,
+  PACKED_FLOAT32_ARRAY = 32,
+  PACKED_FLOAT64_ARRAY = 33,
+  PACKED_STRING_ARRAY = 34,
+  PACKED_VECTOR2_ARRAY = 35,
+  PACKED_VECTOR3_ARRAY = 36,
+  PACKED_COLOR_ARRAY = 37,
+  PACKED_VECTOR4_ARRAY = 38,
+}
+
+/**
+ * Reference to a Godot Object sent by instance ID rather than by value
+ */
+export interface ObjectRef {
+  objectId: string;
+}
+
+/**
+ * A single message exchanged with the remote debugger
+ */
+export interface DebuggerMessage {
+  name: string;
+  threadId?: number;
+  data: unknown[];
+}
+
+export interface DebuggerStackFrame {
+  file: string;
+  function: string;
+  line: number;
+}
+
+/**
+ * An error or warning reported by the game through the debugger
+ */
+export interface DebuggerError {
+  timestamp: string; // hh:mm:ss.msec since engine start
+  file: string;
+  function: string;
+  line: number;
+  error: string;
+  description: string;
+  warning: boolean;
+  callstack: DebuggerStackFrame[];
+}
+
+/**
+ * A node in the remote scene tree reported by the debugger
+ */
+export interface RemoteNode {
+  name: string;
+  type: string;
+  path: string;
+  objectId: string;
+  sceneFilePath: string;
+  children: RemoteNode[];
+}
+
+export interface RemoteProperty {
+  name: string;
+  type: VariantType;
+  value: unknown;
+}
+
+/**
+ * Result of inspecting a remote object
+ */
+export interface RemoteObject {
+  objectId: string;
+  className: string;
+  properties: RemoteProperty[];
+}
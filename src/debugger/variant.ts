@@ -0,0 +1,652 @@
+/**
+ * Binary Variant encoding/decoding compatible with Godot 4's marshalls.cpp
+ */
+
+import { VariantType, type ObjectRef } from "./types.js";
+import type { ObjectReference, TaggedVariant, VariantValue } from "../bridge/types.js";
+
+const HEADER_TYPE_MASK = 0xff;
+const ENCODE_FLAG_64 = 1 << 16;
+const ENCODE_FLAG_OBJECT_AS_ID = 1 << 16;
+
+const CONTAINER_TYPE_NONE = 0;
+const CONTAINER_TYPE_BUILTIN = 1;
+const CONTAINER_TYPE_CLASS_NAME = 2;
+const CONTAINER_TYPE_SCRIPT = 3;
+
+const NODE_PATH_NEW_FORMAT = 0x80000000;
+const NODE_PATH_FLAG_ABSOLUTE = 1;
+
+/**
+ * Sequential little-endian reader over a Variant buffer
+ */
+class Reader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private buffer: Buffer) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error(`Truncated Variant data (need ${length} bytes at offset ${this.offset})`);
+    }
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i64(): number | string {
+    this.ensure(8);
+    const value = this.view.getBigInt64(this.offset, true);
+    this.offset += 8;
+    return toSafeNumber(value);
+  }
+
+  u64(): string {
+    this.ensure(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return value.toString();
+  }
+
+  f32(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  real(double: boolean): number {
+    return double ? this.f64() : this.f32();
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u32();
+    const value = this.bytes(length).toString("utf-8");
+    this.offset += pad4(length);
+    return value;
+  }
+}
+
+/**
+ * Little-endian writer that accumulates an encoded Variant
+ */
+class Writer {
+  private chunks: Buffer[] = [];
+
+  u32(value: number): void {
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32LE(value >>> 0);
+    this.chunks.push(buf);
+  }
+
+  i32(value: number): void {
+    const buf = Buffer.alloc(4);
+    buf.writeInt32LE(value);
+    this.chunks.push(buf);
+  }
+
+  i64(value: bigint): void {
+    const buf = Buffer.alloc(8);
+    buf.writeBigInt64LE(value);
+    this.chunks.push(buf);
+  }
+
+  u64(value: bigint): void {
+    const buf = Buffer.alloc(8);
+    buf.writeBigUInt64LE(value);
+    this.chunks.push(buf);
+  }
+
+  f32(value: number): void {
+    const buf = Buffer.alloc(4);
+    buf.writeFloatLE(value);
+    this.chunks.push(buf);
+  }
+
+  f64(value: number): void {
+    const buf = Buffer.alloc(8);
+    buf.writeDoubleLE(value);
+    this.chunks.push(buf);
+  }
+
+  string(value: string): void {
+    const encoded = Buffer.from(value, "utf-8");
+    this.u32(encoded.length);
+    this.chunks.push(encoded, Buffer.alloc(pad4(encoded.length)));
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+function pad4(length: number): number {
+  return (4 - (length % 4)) % 4;
+}
+
+function toSafeNumber(value: bigint): number | string {
+  if (value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)) {
+    return Number(value);
+  }
+  return value.toString();
+}
+
+/**
+ * Check whether a decoded value is an object reference
+ */
+export function isObjectRef(value: unknown): value is ObjectRef {
+  return typeof value === "object" && value !== null &&
+    Object.keys(value).length === 1 && typeof (value as ObjectRef).objectId === "string";
+}
+
+/**
+ * Skip the element type information that precedes typed container contents
+ */
+function skipContainerType(reader: Reader, kind: number): void {
+  switch (kind) {
+    case CONTAINER_TYPE_NONE:
+      break;
+    case CONTAINER_TYPE_BUILTIN:
+      reader.u32();
+      break;
+    case CONTAINER_TYPE_CLASS_NAME:
+    case CONTAINER_TYPE_SCRIPT:
+      reader.string();
+      break;
+    default:
+      throw new Error(`Unknown container type kind: ${kind}`);
+  }
+}
+
+function readValue(reader: Reader): unknown {
+  const header = reader.u32();
+  const type = header & HEADER_TYPE_MASK;
+  const flag64 = (header & ENCODE_FLAG_64) !== 0;
+
+  switch (type) {
+    case VariantType.NIL:
+      return null;
+    case VariantType.BOOL:
+      return reader.i32() !== 0;
+    case VariantType.INT:
+      return flag64 ? reader.i64() : reader.i32();
+    case VariantType.FLOAT:
+      return flag64 ? reader.f64() : reader.f32();
+    case VariantType.STRING:
+    case VariantType.STRING_NAME:
+      return reader.string();
+    case VariantType.VECTOR2:
+      return { x: reader.real(flag64), y: reader.real(flag64) };
+    case VariantType.VECTOR2I:
+      return { x: reader.i32(), y: reader.i32() };
+    case VariantType.RECT2:
+      return {
+        position: { x: reader.real(flag64), y: reader.real(flag64) },
+        size: { x: reader.real(flag64), y: reader.real(flag64) },
+      };
+    case VariantType.RECT2I:
+      return {
+        position: { x: reader.i32(), y: reader.i32() },
+        size: { x: reader.i32(), y: reader.i32() },
+      };
+    case VariantType.VECTOR3:
+      return { x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64) };
+    case VariantType.VECTOR3I:
+      return { x: reader.i32(), y: reader.i32(), z: reader.i32() };
+    case VariantType.VECTOR4:
+    case VariantType.QUATERNION:
+      return { x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64), w: reader.real(flag64) };
+    case VariantType.VECTOR4I:
+      return { x: reader.i32(), y: reader.i32(), z: reader.i32(), w: reader.i32() };
+    case VariantType.PLANE:
+      return {
+        normal: { x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64) },
+        d: reader.real(flag64),
+      };
+    case VariantType.AABB:
+      return {
+        position: { x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64) },
+        size: { x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64) },
+      };
+    case VariantType.TRANSFORM2D:
+      return Array.from({ length: 6 }, () => reader.real(flag64));
+    case VariantType.BASIS:
+      return Array.from({ length: 9 }, () => reader.real(flag64));
+    case VariantType.TRANSFORM3D:
+      return Array.from({ length: 12 }, () => reader.real(flag64));
+    case VariantType.PROJECTION:
+      return Array.from({ length: 16 }, () => reader.real(flag64));
+    case VariantType.COLOR:
+      return { r: reader.f32(), g: reader.f32(), b: reader.f32(), a: reader.f32() };
+    case VariantType.NODE_PATH:
+      return readNodePath(reader);
+    case VariantType.RID:
+      return reader.u64();
+    case VariantType.OBJECT:
+      return readObject(reader, (header & ENCODE_FLAG_OBJECT_AS_ID) !== 0);
+    case VariantType.CALLABLE:
+      return null; // Callables are not serialized
+    case VariantType.SIGNAL: {
+      const name = reader.string();
+      return { signal: name, objectId: reader.u64() };
+    }
+    case VariantType.DICTIONARY: {
+      skipContainerType(reader, (header >> 16) & 0b11);
+      skipContainerType(reader, (header >> 18) & 0b11);
+      const count = reader.u32() & 0x7fffffff;
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < count; i++) {
+        const key = readValue(reader);
+        result[typeof key === "string" ? key : JSON.stringify(key)] = readValue(reader);
+      }
+      return result;
+    }
+    case VariantType.ARRAY: {
+      skipContainerType(reader, (header >> 16) & 0b11);
+      const count = reader.u32() & 0x7fffffff;
+      return Array.from({ length: count }, () => readValue(reader));
+    }
+    case VariantType.PACKED_BYTE_ARRAY: {
+      const length = reader.u32();
+      const data = reader.bytes(length);
+      reader.offset += pad4(length);
+      return Array.from(data);
+    }
+    case VariantType.PACKED_INT32_ARRAY:
+      return Array.from({ length: reader.u32() }, () => reader.i32());
+    case VariantType.PACKED_INT64_ARRAY:
+      return Array.from({ length: reader.u32() }, () => reader.i64());
+    case VariantType.PACKED_FLOAT32_ARRAY:
+      return Array.from({ length: reader.u32() }, () => reader.f32());
+    case VariantType.PACKED_FLOAT64_ARRAY:
+      return Array.from({ length: reader.u32() }, () => reader.f64());
+    case VariantType.PACKED_STRING_ARRAY:
+      return Array.from({ length: reader.u32() }, () => reader.string());
+    case VariantType.PACKED_VECTOR2_ARRAY:
+      return Array.from({ length: reader.u32() }, () => ({ x: reader.real(flag64), y: reader.real(flag64) }));
+    case VariantType.PACKED_VECTOR3_ARRAY:
+      return Array.from({ length: reader.u32() }, () => ({
+        x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64),
+      }));
+    case VariantType.PACKED_COLOR_ARRAY:
+      return Array.from({ length: reader.u32() }, () => ({
+        r: reader.f32(), g: reader.f32(), b: reader.f32(), a: reader.f32(),
+      }));
+    case VariantType.PACKED_VECTOR4_ARRAY:
+      return Array.from({ length: reader.u32() }, () => ({
+        x: reader.real(flag64), y: reader.real(flag64), z: reader.real(flag64), w: reader.real(flag64),
+      }));
+    default:
+      throw new Error(`Unsupported Variant type: ${type}`);
+  }
+}
+
+function readNodePath(reader: Reader): string {
+  const first = reader.u32();
+  if (!(first & NODE_PATH_NEW_FORMAT)) {
+    throw new Error("Legacy NodePath encoding is not supported");
+  }
+
+  const nameCount = first & 0x7fffffff;
+  const subnameCount = reader.u32();
+  const flags = reader.u32();
+
+  const names = Array.from({ length: nameCount }, () => reader.string());
+  const subnames = Array.from({ length: subnameCount }, () => reader.string());
+
+  let path = (flags & NODE_PATH_FLAG_ABSOLUTE ? "/" : "") + names.join("/");
+  if (subnames.length > 0) {
+    path += ":" + subnames.join(":");
+  }
+  return path;
+}
+
+function readObject(reader: Reader, asId: boolean): unknown {
+  if (asId) {
+    const objectId = reader.u64();
+    return objectId === "0" ? null : { objectId };
+  }
+
+  const className = reader.string();
+  if (className === "") {
+    return null;
+  }
+
+  const properties: Record<string, unknown> = {};
+  const count = reader.u32();
+  for (let i = 0; i < count; i++) {
+    const name = reader.string();
+    properties[name] = readValue(reader);
+  }
+  return { className, properties };
+}
+
+function isTaggedVariant(value: unknown): value is TaggedVariant {
+  return typeof value === "object" && value !== null && typeof (value as TaggedVariant).$type === "string";
+}
+
+function numberOf(value: unknown): number {
+  return typeof value === "number" ? value : Number(value ?? 0);
+}
+
+/**
+ * Write the bridge's tagged encoding (see VariantValue) as the Variant it stands for;
+ * only the types that make sense to send to the debugger are supported
+ */
+function writeTagged(writer: Writer, value: TaggedVariant): void {
+  const reals = (type: VariantType, ...components: unknown[]) => {
+    writer.u32(type | ENCODE_FLAG_64);
+    components.forEach(component => writer.f64(numberOf(component)));
+  };
+  const ints = (type: VariantType, ...components: unknown[]) => {
+    writer.u32(type);
+    components.forEach(component => writer.i32(Math.trunc(numberOf(component))));
+  };
+
+  switch (value.$type) {
+    case "int":
+      writer.u32(VariantType.INT | ENCODE_FLAG_64);
+      writer.i64(BigInt(value.value));
+      return;
+    case "float":
+      writer.u32(VariantType.FLOAT | ENCODE_FLAG_64);
+      writer.f64(value.value === "inf" ? Infinity : value.value === "-inf" ? -Infinity : value.value === "nan" ? NaN : value.value);
+      return;
+    case "Vector2":
+      return reals(VariantType.VECTOR2, value.x, value.y);
+    case "Vector2i":
+      return ints(VariantType.VECTOR2I, value.x, value.y);
+    case "Vector3":
+      return reals(VariantType.VECTOR3, value.x, value.y, value.z);
+    case "Vector3i":
+      return ints(VariantType.VECTOR3I, value.x, value.y, value.z);
+    case "Vector4":
+      return reals(VariantType.VECTOR4, value.x, value.y, value.z, value.w);
+    case "Vector4i":
+      return ints(VariantType.VECTOR4I, value.x, value.y, value.z, value.w);
+    case "Quaternion":
+      return reals(VariantType.QUATERNION, value.x, value.y, value.z, value.w);
+    case "Rect2":
+      return reals(VariantType.RECT2, value.position?.x, value.position?.y, value.size?.x, value.size?.y);
+    case "Rect2i":
+      return ints(VariantType.RECT2I, value.position?.x, value.position?.y, value.size?.x, value.size?.y);
+    case "Color":
+      // Colors are always single precision
+      writer.u32(VariantType.COLOR);
+      [value.r, value.g, value.b, value.a ?? 1].forEach(component => writer.f32(numberOf(component)));
+      return;
+    case "StringName":
+      writer.u32(VariantType.STRING_NAME);
+      writer.string(value.value);
+      return;
+    case "NodePath":
+      writeNodePath(writer, value.value);
+      return;
+    case "Object":
+    case "Resource":
+      // The debugger loads a res:// path set on an object property, as it sends them
+      if (value.$type === "Resource" && value.id === undefined && value.path) {
+        writer.u32(VariantType.STRING);
+        writer.string(value.path);
+        return;
+      }
+      if (value.id === undefined) {
+        throw new Error(`${value.$type} references sent through the remote debugger need an instance ID`);
+      }
+      writer.u32(VariantType.OBJECT | ENCODE_FLAG_OBJECT_AS_ID);
+      writer.u64(BigInt(value.id));
+      return;
+    default:
+      throw new Error(`${value.$type} values can only be sent through the MCP Bridge addon`);
+  }
+}
+
+function writeNodePath(writer: Writer, path: string): void {
+  const [namePart = "", ...subnames] = path.split(":");
+  const names = namePart.split("/").filter(name => name !== "");
+
+  writer.u32(VariantType.NODE_PATH);
+  writer.u32((names.length | NODE_PATH_NEW_FORMAT) >>> 0);
+  writer.u32(subnames.length);
+  writer.u32(namePart.startsWith("/") ? NODE_PATH_FLAG_ABSOLUTE : 0);
+  [...names, ...subnames].forEach(name => writer.string(name));
+}
+
+function writeValue(writer: Writer, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u32(VariantType.NIL);
+    return;
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      writer.u32(VariantType.BOOL);
+      writer.i32(value ? 1 : 0);
+      return;
+    case "number":
+      if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) {
+        writer.u32(VariantType.INT);
+        writer.i32(value);
+      } else if (Number.isSafeInteger(value)) {
+        writer.u32(VariantType.INT | ENCODE_FLAG_64);
+        writer.i64(BigInt(value));
+      } else {
+        writer.u32(VariantType.FLOAT | ENCODE_FLAG_64);
+        writer.f64(value);
+      }
+      return;
+    case "bigint":
+      writer.u32(VariantType.INT | ENCODE_FLAG_64);
+      writer.i64(value);
+      return;
+    case "string":
+      writer.u32(VariantType.STRING);
+      writer.string(value);
+      return;
+    case "object":
+      break;
+    default:
+      throw new Error(`Cannot encode ${typeof value} as a Variant`);
+  }
+
+  if (Array.isArray(value)) {
+    writer.u32(VariantType.ARRAY);
+    writer.u32(value.length);
+    for (const item of value) {
+      writeValue(writer, item);
+    }
+    return;
+  }
+
+  if (isTaggedVariant(value)) {
+    writeTagged(writer, value);
+    return;
+  }
+
+  if (isObjectRef(value)) {
+    writer.u32(VariantType.OBJECT | ENCODE_FLAG_OBJECT_AS_ID);
+    writer.u64(BigInt(value.objectId));
+    return;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  writer.u32(VariantType.DICTIONARY);
+  writer.u32(entries.length);
+  for (const [key, item] of entries) {
+    writeValue(writer, key);
+    writeValue(writer, item);
+  }
+}
+
+// Type names of the bridge's tagged encoding, where it tags the type
+const TAGGED_TYPE_NAMES: Partial<Record<VariantType, string>> = {
+  [VariantType.VECTOR2]: "Vector2",
+  [VariantType.VECTOR2I]: "Vector2i",
+  [VariantType.RECT2]: "Rect2",
+  [VariantType.RECT2I]: "Rect2i",
+  [VariantType.VECTOR3]: "Vector3",
+  [VariantType.VECTOR3I]: "Vector3i",
+  [VariantType.VECTOR4]: "Vector4",
+  [VariantType.VECTOR4I]: "Vector4i",
+  [VariantType.PLANE]: "Plane",
+  [VariantType.QUATERNION]: "Quaternion",
+  [VariantType.AABB]: "AABB",
+  [VariantType.COLOR]: "Color",
+  [VariantType.PACKED_INT32_ARRAY]: "PackedInt32Array",
+  [VariantType.PACKED_INT64_ARRAY]: "PackedInt64Array",
+  [VariantType.PACKED_FLOAT32_ARRAY]: "PackedFloat32Array",
+  [VariantType.PACKED_FLOAT64_ARRAY]: "PackedFloat64Array",
+  [VariantType.PACKED_STRING_ARRAY]: "PackedStringArray",
+  [VariantType.PACKED_VECTOR2_ARRAY]: "PackedVector2Array",
+  [VariantType.PACKED_VECTOR3_ARRAY]: "PackedVector3Array",
+  [VariantType.PACKED_COLOR_ARRAY]: "PackedColorArray",
+  [VariantType.PACKED_VECTOR4_ARRAY]: "PackedVector4Array",
+};
+
+function taggedFloat(value: number): VariantValue {
+  if (Number.isFinite(value)) {
+    return value;
+  }
+  return { $type: "float", value: Number.isNaN(value) ? "nan" : value > 0 ? "inf" : "-inf" };
+}
+
+/**
+ * Vectors of a matrix decoded as a flat list of reals, `count` vectors of `size` each,
+ * as rows (transposed = true) or as columns
+ */
+function matrixVectors(values: number[], count: number, size: number, transposed: boolean) {
+  const axes = ["x", "y", "z", "w"];
+  return Array.from({ length: count }, (_, vector) => Object.fromEntries(
+    axes.slice(0, size).map((axis, component) =>
+      [axis, transposed ? values[component * count + vector]! : values[vector * size + component]!])
+  ) as { x: number; y: number; z: number; w: number });
+}
+
+function taggedObject(value: unknown): ObjectReference | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  // The debugger sends resources saved to a file by path, other objects by instance ID
+  if (typeof value === "string" && value.startsWith("res://")) {
+    return { $type: "Resource", path: value };
+  }
+  if (isObjectRef(value)) {
+    return { $type: "Object", id: value.objectId };
+  }
+  if (typeof value === "number" || typeof value === "string") {
+    return { $type: "Object", id: String(value) };
+  }
+  const className = (value as { className?: string }).className;
+  return { $type: "Object", ...(className && { class: className }) };
+}
+
+/**
+ * Convert a decoded value of a known type to the bridge's tagged encoding (see
+ * VariantValue), e.g. a property value from scene:inspect_object, so values read
+ * through the debugger can be sent back like values read through the addon.
+ * Elements of arrays and dictionaries carry no type, so they stay as decoded.
+ */
+export function toTaggedVariant(type: VariantType, value: unknown): VariantValue {
+  switch (type) {
+    case VariantType.INT:
+      return typeof value === "string" ? { $type: "int", value } : value as number;
+    case VariantType.FLOAT:
+      return taggedFloat(value as number);
+    case VariantType.TRANSFORM2D: {
+      // Godot sends the three columns
+      const [x, y, origin] = matrixVectors(value as number[], 3, 2, false);
+      return { $type: "Transform2D", x, y, origin } as TaggedVariant;
+    }
+    case VariantType.BASIS: {
+      // Godot sends the rows of a basis
+      const [x, y, z] = matrixVectors(value as number[], 3, 3, true);
+      return { $type: "Basis", x, y, z } as TaggedVariant;
+    }
+    case VariantType.TRANSFORM3D: {
+      const values = value as number[];
+      const [x, y, z] = matrixVectors(values, 3, 3, true);
+      const [origin] = matrixVectors(values.slice(9), 1, 3, false);
+      return { $type: "Transform3D", basis: { x, y, z }, origin } as TaggedVariant;
+    }
+    case VariantType.PROJECTION: {
+      const [x, y, z, w] = matrixVectors(value as number[], 4, 4, false);
+      return { $type: "Projection", x, y, z, w } as TaggedVariant;
+    }
+    case VariantType.STRING_NAME:
+      return { $type: "StringName", value: String(value) };
+    case VariantType.NODE_PATH:
+      return { $type: "NodePath", value: String(value) };
+    case VariantType.RID:
+      return { $type: "RID", id: String(value) };
+    case VariantType.OBJECT:
+      return taggedObject(value);
+    case VariantType.SIGNAL: {
+      const signal = value as { signal: string; objectId: string } | null;
+      return signal && { $type: "Signal", object: taggedObject({ objectId: signal.objectId }), signal: signal.signal };
+    }
+    case VariantType.PACKED_BYTE_ARRAY:
+      return { $type: "PackedByteArray", base64: Buffer.from(value as number[]).toString("base64") };
+    case VariantType.PACKED_FLOAT32_ARRAY:
+    case VariantType.PACKED_FLOAT64_ARRAY:
+      return { $type: TAGGED_TYPE_NAMES[type], values: (value as number[]).map(taggedFloat) } as TaggedVariant;
+    case VariantType.PACKED_INT64_ARRAY:
+      return {
+        $type: "PackedInt64Array",
+        values: (value as (number | string)[]).map(item => toTaggedVariant(VariantType.INT, item))
+      } as TaggedVariant;
+    default: {
+      const typeName = TAGGED_TYPE_NAMES[type];
+      if (!typeName || value === null || value === undefined) {
+        return value as VariantValue;
+      }
+      if (Array.isArray(value)) {
+        return { $type: typeName, values: value } as TaggedVariant;
+      }
+      return { $type: typeName, ...value as object } as TaggedVariant;
+    }
+  }
+}
+
+/**
+ * Decode a single Variant from a buffer
+ */
+export function decodeVariant(buffer: Buffer): unknown {
+  return readValue(new Reader(buffer));
+}
+
+/**
+ * Encode a JSON-compatible value as a Variant, including the bridge's tagged values
+ */
+export function encodeVariant(value: unknown): Buffer {
+  const writer = new Writer();
+  writeValue(writer, value);
+  return writer.toBuffer();
+}
@@ -0,0 +1,71 @@
+// Generate Godot documentation offline using the engine's --doctool mode
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { godotPath, projectPath } from '../config.js';
+import { getCacheDir, isCached, listCachedDocs, markCached } from './fetcher.js';
+import { hashProjectPath } from '../utils/files.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('docs');
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Cache key for doctool output
+ * Docs include classes from GDExtensions the project loads, so they are cached per project
+ */
+function doctoolCacheKey(versionKey: string): string {
+  return `${versionKey}-doctool-${hashProjectPath(projectPath)}`;
+}
+
+/**
+ * Generate documentation by running the configured Godot binary with --doctool
+ * Works without network access and always matches the exact binary in use
+ */
+export async function generateDocs(versionKey: string): Promise<string> {
+  const cacheKey = doctoolCacheKey(versionKey);
+  const cacheDir = getCacheDir(cacheKey);
+
+  if (isCached(cacheKey)) {
+    logger.debug(`Using cached doctool docs for ${cacheKey}`);
+    return cacheDir;
+  }
+
+  if (!godotPath) {
+    throw new Error('GODOT_PATH environment variable is not set');
+  }
+
+  // Start from an empty directory so a previous partial run doesn't linger
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+  fs.mkdirSync(cacheDir, { recursive: true });
+
+  logger.info(`Generating Godot docs with --doctool into ${cacheDir}...`);
+
+  try {
+    // The dump covers the engine's own classes plus, since the project is loaded,
+    // its GDExtension classes
+    await execFileAsync(godotPath, [
+      '--headless',
+      '--path', projectPath,
+      '--doctool', cacheDir,
+    ], {
+      timeout: 5 * 60 * 1000,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  } catch (error) {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    throw new Error(`godot --doctool failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const xmlFiles = listCachedDocs(cacheDir);
+  logger.info(`Generated ${xmlFiles.length} documentation files`);
+
+  if (xmlFiles.length === 0) {
+    throw new Error('godot --doctool did not produce any XML files');
+  }
+
+  markCached(cacheKey);
+
+  return cacheDir;
+}
@@ -6,6 +6,9 @@ import { createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
 import envPaths from 'env-paths';
 import { getGodotVersion, versionToGitRef, versionToCacheKey } from './version.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('docs');
 
 const paths = envPaths('mcp-server-godot', { suffix: '' });
 
@@ -16,19 +19,21 @@ export function getCacheDir(versionKey: string): string {
   return path.join(paths.cache, 'docs', versionKey);
 }
 
+// Written once a cache directory is complete, so interrupted downloads or dumps are redone
+const COMPLETE_MARKER = '.complete';
+
 /**
  * Check if docs are cached for a version
  */
 export function isCached(versionKey: string): boolean {
-  const cacheDir = getCacheDir(versionKey);
-  if (!fs.existsSync(cacheDir)) {
-    return false;
-  }
+  return fs.existsSync(path.join(getCacheDir(versionKey), COMPLETE_MARKER));
+}
 
-  // Check if we have at least some XML files
-  const files = fs.readdirSync(cacheDir);
-  const xmlFiles = files.filter(f => f.endsWith('.xml'));
-  return xmlFiles.length > 100; // Expect 1000+ files, but 100 is a sanity check
+/**
+ * Mark the cache directory for a version as complete
+ */
+export function markCached(versionKey: string): void {
+  fs.writeFileSync(path.join(getCacheDir(versionKey), COMPLETE_MARKER), new Date().toISOString());
 }
 
 /**
@@ -77,13 +82,14 @@ export async function fetchDocs(versionKey?: string): Promise<string> {
 
   // Check if already cached
   if (isCached(cacheKey)) {
-    console.log(`Using cached docs for ${cacheKey}`);
+    logger.debug(`Using cached docs for ${cacheKey}`);
     return cacheDir;
   }
 
-  console.log(`Fetching Godot docs for version ${version.full} (ref: ${gitRef})...`);
+  logger.info(`Fetching Godot docs for version ${version.full} (ref: ${gitRef})...`);
 
-  // Create cache directory
+  // Start from an empty directory so a previous partial download doesn't linger
+  fs.rmSync(cacheDir, { recursive: true, force: true });
   fs.mkdirSync(cacheDir, { recursive: true });
 
   // Download tarball from GitHub
@@ -97,10 +103,10 @@ export async function fetchDocs(versionKey?: string): Promise<string> {
   fs.mkdirSync(paths.temp, { recursive: true });
 
   try {
-    console.log(`Downloading from ${tarballUrl}...`);
+    logger.info(`Downloading from ${tarballUrl}...`);
     await downloadFile(tarballUrl, tarballPath);
 
-    console.log('Extracting documentation files...');
+    logger.info('Extracting documentation files...');
 
     // Extract just the doc/classes directory
     // The tarball structure is: godot-4.3-stable/doc/classes/*.xml
@@ -118,12 +124,13 @@ export async function fetchDocs(versionKey?: string): Promise<string> {
     // Verify extraction
     const files = fs.readdirSync(cacheDir);
     const xmlFiles = files.filter(f => f.endsWith('.xml'));
-    console.log(`Extracted ${xmlFiles.length} documentation files`);
+    logger.info(`Extracted ${xmlFiles.length} documentation files`);
 
     if (xmlFiles.length === 0) {
       throw new Error('No XML files were extracted from the archive');
     }
 
+    markCached(cacheKey);
     return cacheDir;
   } finally {
     // Clean up tarball
@@ -134,14 +141,15 @@ export async function fetchDocs(versionKey?: string): Promise<string> {
 }
 
 /**
- * List all XML files in the cache directory
+ * List all XML files in a docs directory, including subdirectories
+ * (doctool output is split into doc/classes and modules/<name>/doc_classes)
  */
 export function listCachedDocs(cacheDir: string): string[] {
   if (!fs.existsSync(cacheDir)) {
     return [];
   }
 
-  return fs.readdirSync(cacheDir)
+  return fs.readdirSync(cacheDir, { recursive: true, encoding: 'utf-8' })
     .filter(f => f.endsWith('.xml'))
     .map(f => path.join(cacheDir, f));
 }
@@ -1,8 +1,13 @@
 // Documentation index management with lazy initialization
 import type { GodotClass } from './types.js';
 import { fetchDocs, listCachedDocs } from './fetcher.js';
+import { generateDocs } from './doctool.js';
+import { docsPath, docsSource } from '../config.js';
 import { getGodotVersion, versionToCacheKey } from './version.js';
 import { parseClassXml } from './parser.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('docs');
 
 /**
  * Singleton documentation index
@@ -34,19 +39,19 @@ class DocsIndex {
 
   private async initialize(): Promise<void> {
     try {
-      console.log('Initializing Godot documentation index...');
+      logger.info('Initializing Godot documentation index...');
 
       // Detect version and get cache key
       const version = getGodotVersion();
       this.versionKey = versionToCacheKey(version);
-      console.log(`Godot version: ${version.full} (cache key: ${this.versionKey})`);
+      logger.info(`Godot version: ${version.full} (cache key: ${this.versionKey})`);
 
-      // Fetch docs if needed
-      const cacheDir = await fetchDocs(this.versionKey);
+      // Fetch or generate docs if needed
+      const cacheDir = await this.resolveDocsDir(this.versionKey);
 
       // Parse all XML files
       const xmlFiles = listCachedDocs(cacheDir);
-      console.log(`Parsing ${xmlFiles.length} documentation files...`);
+      logger.debug(`Parsing ${xmlFiles.length} documentation files...`);
 
       let parsed = 0;
       let failed = 0;
@@ -61,14 +66,32 @@ class DocsIndex {
         }
       }
 
-      console.log(`Parsed ${parsed} classes (${failed} failed)`);
+      logger.info(`Parsed ${parsed} classes (${failed} failed)`);
       this.initialized = true;
     } catch (error) {
-      console.error('Failed to initialize documentation index:', error);
+      logger.error('Failed to initialize documentation index', error);
       throw error;
     }
   }
 
+  /**
+   * Locate the directory of XML docs for the configured docs source
+   */
+  private async resolveDocsDir(versionKey: string): Promise<string> {
+    switch (docsSource) {
+      case 'doctool':
+        return generateDocs(versionKey);
+      case 'local':
+        if (!docsPath) {
+          throw new Error('GODOT_DOCS_PATH environment variable is not set');
+        }
+        logger.debug(`Using local docs from ${docsPath}`);
+        return docsPath;
+      case 'github':
+        return fetchDocs(versionKey);
+    }
+  }
+
   /**
    * Get all class names
    */
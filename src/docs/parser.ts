@@ -10,6 +10,9 @@ import type {
   GodotConstant,
   GodotThemeItem,
 } from './types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('docs');
 
 // Configure XML parser to preserve attributes
 const parser = new XMLParser({
@@ -49,7 +52,7 @@ export function parseClassXml(xmlPath: string): GodotClass | null {
       themeItems: parseThemeItems(classData.theme_items),
     };
   } catch (error) {
-    console.error(`Failed to parse ${xmlPath}:`, error);
+    logger.warning(`Failed to parse ${xmlPath}`, error);
     return null;
   }
 }
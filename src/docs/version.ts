@@ -1,6 +1,9 @@
 // Detect Godot version and map to GitHub ref
 import { execSync } from 'child_process';
 import { godotPath } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('docs');
 
 export interface GodotVersionInfo {
   major: number;
@@ -45,7 +48,7 @@ export function getGodotVersion(): GodotVersionInfo {
       full: output,
     };
   } catch (error) {
-    console.error('Failed to get Godot version:', error);
+    logger.warning('Failed to get Godot version', error);
     // Default to latest stable if we can't detect
     return {
       major: 4,
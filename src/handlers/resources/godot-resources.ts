@@ -1,6 +1,9 @@
 import { isGodotResource } from "@fernforestgames/godot-resource-parser";
 import { projectPath } from "../../config.js";
 import { findGodotFiles, parseGodotFile } from "../../utils/files.js";
+import { createLogger } from "../../utils/logger.js";
+
+const logger = createLogger("resources");
 
 // Resource introspection resources
 export const resourcesList = async (uri: URL) => {
@@ -60,7 +63,7 @@ export const resourceTypesList = async (uri: URL) => {
       }
     } catch (error) {
       // Skip files we can't parse
-      console.error(`Warning: Failed to parse resource ${resourcePath}:`, error);
+      logger.warning(`Failed to parse resource ${resourcePath}`, error);
     }
   }
 
@@ -89,7 +92,7 @@ export const resourcesByTypeList = async () => {
       }
     } catch (error) {
       // Skip files we can't parse
-      console.error(`Warning: Failed to parse resource ${resourcePath}:`, error);
+      logger.warning(`Failed to parse resource ${resourcePath}`, error);
     }
   }
 
@@ -119,7 +122,7 @@ export const resourcesByType = async (uri: URL, { type }: any) => {
       }
     } catch (error) {
       // Skip files we can't parse
-      console.error(`Warning: Failed to parse resource ${resourcePath}:`, error);
+      logger.warning(`Failed to parse resource ${resourcePath}`, error);
     }
   }
 
@@ -155,7 +158,7 @@ export const resourcePropertyByType = async (uri: URL, { type, property }: any)
       }
     } catch (error) {
       // Skip files we can't parse
-      console.error(`Warning: Failed to parse resource ${resourcePath}:`, error);
+      logger.warning(`Failed to parse resource ${resourcePath}`, error);
     }
   }
 
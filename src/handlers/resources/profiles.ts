@@ -0,0 +1,14 @@
+import { projectPath } from "../../config.js";
+import { loadProfiles } from "../../runs/profiles.js";
+
+// Launch profiles defined in .mcp-godot.json or the [mcp] section of project.godot
+export const profilesList = async (uri: URL) => {
+  const { source, profiles } = loadProfiles(projectPath);
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify({ source, profiles }, null, 2)
+    }]
+  };
+};
@@ -1,27 +1,46 @@
 import { type ProjectRun } from "../../types.js";
+import { getArchivedRun, listArchivedRuns, readRunLog, redactLaunch } from "../../runs/history.js";
+import { parseDiagnostics } from "../../runs/diagnostics.js";
+import { buildCrashReport } from "../../runs/crash.js";
+
+// IDs of live runs followed by archived runs from previous server sessions
+const allRunIds = (runningProjects: Map<string, ProjectRun>): string[] => {
+  const archived = listArchivedRuns()
+    .map(record => record.id)
+    .filter(runId => !runningProjects.has(runId));
+  return [...runningProjects.keys(), ...archived];
+};
 
 // Resources for project management
 export const runsList = async (uri: URL, runningProjects: Map<string, ProjectRun>) => {
-  const runs = Array.from(runningProjects.values()).map(run => ({
+  const live = Array.from(runningProjects.values()).map(run => ({
     id: run.id,
     projectPath: run.projectPath,
     status: run.status,
     startTime: run.startTime.toISOString(),
+    endTime: run.endTime?.toISOString(),
     exitCode: run.exitCode,
-    args: run.args
+    exitSignal: run.exitSignal,
+    exitReason: run.exitReason,
+    args: run.args,
+    live: true
   }));
 
+  const archived = listArchivedRuns()
+    .filter(record => !runningProjects.has(record.id))
+    .map(record => ({ ...record, live: false }));
+
   return {
     contents: [{
       uri: uri.href,
-      text: JSON.stringify(runs, null, 2)
+      text: JSON.stringify([...live, ...archived], null, 2)
     }]
   };
 };
 
 // List callback for project stdout template
 export const projectStdoutList = (runningProjects: Map<string, ProjectRun>) => async () => {
-  const resources = Array.from(runningProjects.keys()).map(runId => ({
+  const resources = allRunIds(runningProjects).map(runId => ({
     uri: `godot://runs/${runId}/stdout`,
     name: `stdout-${runId}`,
     mimeType: "text/plain"
@@ -30,23 +49,17 @@ export const projectStdoutList = (runningProjects: Map<string, ProjectRun>) => a
 };
 
 export const projectStdout = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
-  const projectRun = runningProjects.get(runId as string);
-
-  if (!projectRun) {
-    throw new Error(`No project found with run ID: ${runId}`);
-  }
-
   return {
     contents: [{
       uri: uri.href,
-      text: projectRun.stdout.join('')
+      text: readRunLog(runningProjects, runId as string, "stdout")
     }]
   };
 };
 
 // List callback for project stderr template
 export const projectStderrList = (runningProjects: Map<string, ProjectRun>) => async () => {
-  const resources = Array.from(runningProjects.keys()).map(runId => ({
+  const resources = allRunIds(runningProjects).map(runId => ({
     uri: `godot://runs/${runId}/stderr`,
     name: `stderr-${runId}`,
     mimeType: "text/plain"
@@ -55,23 +68,17 @@ export const projectStderrList = (runningProjects: Map<string, ProjectRun>) => a
 };
 
 export const projectStderr = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
-  const projectRun = runningProjects.get(runId as string);
-
-  if (!projectRun) {
-    throw new Error(`No project found with run ID: ${runId}`);
-  }
-
   return {
     contents: [{
       uri: uri.href,
-      text: projectRun.stderr.join('')
+      text: readRunLog(runningProjects, runId as string, "stderr")
     }]
   };
 };
 
 // List callback for project status template
 export const projectStatusList = (runningProjects: Map<string, ProjectRun>) => async () => {
-  const resources = Array.from(runningProjects.keys()).map(runId => ({
+  const resources = allRunIds(runningProjects).map(runId => ({
     uri: `godot://runs/${runId}/status`,
     name: `status-${runId}`,
     mimeType: "application/json"
@@ -83,7 +90,17 @@ export const projectStatus = async (uri: URL, { runId }: any, runningProjects: M
   const projectRun = runningProjects.get(runId as string);
 
   if (!projectRun) {
-    throw new Error(`No project found with run ID: ${runId}`);
+    const archived = getArchivedRun(runId as string);
+    if (!archived) {
+      throw new Error(`No project found with run ID: ${runId}`);
+    }
+
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({ ...archived, live: false }, null, 2)
+      }]
+    };
   }
 
   const status = {
@@ -91,8 +108,32 @@ export const projectStatus = async (uri: URL, { runId }: any, runningProjects: M
     status: projectRun.status,
     projectPath: projectRun.projectPath,
     startTime: projectRun.startTime.toISOString(),
+    endTime: projectRun.endTime?.toISOString(),
+    deadline: projectRun.deadline?.toISOString(),
     exitCode: projectRun.exitCode,
-    args: projectRun.args
+    exitSignal: projectRun.exitSignal,
+    exitReason: projectRun.exitReason,
+    stopMethod: projectRun.stopMethod,
+    args: projectRun.args,
+    generation: projectRun.generation,
+    previousRunIds: projectRun.previousRunIds,
+    launch: projectRun.launch && redactLaunch(projectRun.launch),
+    attached: projectRun.attached,
+    live: true,
+    bridge: projectRun.bridge
+      ? {
+        state: projectRun.bridge.state,
+        unresponsive: projectRun.bridge.unresponsive || undefined,
+        lastResponseAt: projectRun.bridge.lastResponseAt?.toISOString(),
+        incompatibility: projectRun.bridge.incompatibility ?? undefined,
+        version: projectRun.bridge.addonVersion || undefined,
+        protocolVersion: projectRun.bridge.version || undefined,
+        capabilities: projectRun.bridge.capabilities
+      }
+      : undefined,
+    debugger: projectRun.debugger
+      ? { port: projectRun.debugger.port, connected: projectRun.debugger.connected }
+      : undefined
   };
 
   return {
@@ -102,3 +143,166 @@ export const projectStatus = async (uri: URL, { runId }: any, runningProjects: M
     }]
   };
 };
+
+// List callback for project errors template
+export const projectErrorsList = (runningProjects: Map<string, ProjectRun>) => async () => {
+  const resources = Array.from(runningProjects.keys()).map(runId => ({
+    uri: `godot://runs/${runId}/errors`,
+    name: `errors-${runId}`,
+    mimeType: "application/json"
+  }));
+  return { resources };
+};
+
+export const projectErrors = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
+  const projectRun = runningProjects.get(runId as string);
+
+  if (!projectRun) {
+    throw new Error(`No project found with run ID: ${runId}`);
+  }
+
+  if (!projectRun.debugger) {
+    throw new Error(`Project ${runId} was not launched with the remote debugger`);
+  }
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(projectRun.debugger.errors, null, 2)
+    }]
+  };
+};
+
+// List callback for project diagnostics template
+export const projectDiagnosticsList = (runningProjects: Map<string, ProjectRun>) => async () => {
+  const resources = allRunIds(runningProjects).map(runId => ({
+    uri: `godot://runs/${runId}/diagnostics`,
+    name: `diagnostics-${runId}`,
+    mimeType: "application/json"
+  }));
+  return { resources };
+};
+
+export const projectDiagnostics = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
+  const stderr = readRunLog(runningProjects, runId as string, "stderr");
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(parseDiagnostics(stderr), null, 2)
+    }]
+  };
+};
+
+// List callback for project crash report template
+export const projectCrashList = (runningProjects: Map<string, ProjectRun>) => async () => {
+  const resources = allRunIds(runningProjects).map(runId => ({
+    uri: `godot://runs/${runId}/crash`,
+    name: `crash-${runId}`,
+    mimeType: "application/json"
+  }));
+  return { resources };
+};
+
+export const projectCrash = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
+  const projectRun = runningProjects.get(runId as string);
+  const record = projectRun ? null : getArchivedRun(runId as string);
+  if (!projectRun && !record) {
+    throw new Error(`No project found with run ID: ${runId}`);
+  }
+
+  const report = buildCrashReport({
+    runId: runId as string,
+    exitSignal: projectRun ? projectRun.exitSignal : record!.exitSignal,
+    exitCode: projectRun ? projectRun.exitCode : record!.exitCode,
+    stopRequested: projectRun ? projectRun.stopRequested : record!.exitReason === 'stopped' || record!.exitReason === 'timeout',
+    stdout: readRunLog(runningProjects, runId as string, "stdout"),
+    stderr: readRunLog(runningProjects, runId as string, "stderr")
+  });
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(report, null, 2)
+    }]
+  };
+};
+
+// List callback for project metrics template (only live runs are sampled)
+export const projectMetricsList = (runningProjects: Map<string, ProjectRun>) => async () => {
+  const resources = Array.from(runningProjects.values())
+    .filter(run => run.metrics)
+    .map(run => ({
+      uri: `godot://runs/${run.id}/metrics`,
+      name: `metrics-${run.id}`,
+      mimeType: "application/json"
+    }));
+  return { resources };
+};
+
+export const projectMetrics = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
+  const projectRun = runningProjects.get(runId as string);
+
+  if (!projectRun) {
+    throw new Error(`No project found with run ID: ${runId}`);
+  }
+
+  if (!projectRun.metrics) {
+    throw new Error(`Resource usage is not sampled for run ${runId} (requires Linux and GODOT_METRICS_INTERVAL_MS > 0)`);
+  }
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(projectRun.metrics.report(), null, 2)
+    }]
+  };
+};
+
+// List callback for project events template (events are only kept for live runs)
+export const projectEventsList = (runningProjects: Map<string, ProjectRun>) => async () => {
+  const resources = Array.from(runningProjects.keys()).map(runId => ({
+    uri: `godot://runs/${runId}/events`,
+    name: `events-${runId}`,
+    mimeType: "application/json"
+  }));
+  return { resources };
+};
+
+// Non-negative integer query parameter, or undefined if it is absent
+const parseCountParam = (uri: URL, name: string): number | undefined => {
+  const value = uri.searchParams.get(name);
+  if (value === null || value === "") {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer, got: ${value}`);
+  }
+  return parseInt(value, 10);
+};
+
+// Accepts ?type=scene_changed,node_added&since=42&limit=100
+export const projectEvents = async (uri: URL, { runId }: any, runningProjects: Map<string, ProjectRun>) => {
+  const projectRun = runningProjects.get(runId as string);
+
+  if (!projectRun) {
+    throw new Error(`No project found with run ID: ${runId}`);
+  }
+
+  const types = uri.searchParams.getAll("type").flatMap(type => type.split(",")).filter(Boolean);
+  const since = parseCountParam(uri, "since");
+  const limit = parseCountParam(uri, "limit");
+
+  const result = projectRun.gameEvents.read({
+    ...(types.length > 0 && { types }),
+    ...(since !== undefined && { since }),
+    ...(limit !== undefined && { limit })
+  });
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(result, null, 2)
+    }]
+  };
+};
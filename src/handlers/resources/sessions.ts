@@ -0,0 +1,61 @@
+import type { ProjectRun, RunSession } from "../../types.js";
+import { getArchivedRun } from "../../runs/history.js";
+
+// List callback for run session template
+export const sessionList = (runSessions: Map<string, RunSession>) => async () => {
+  const resources = Array.from(runSessions.keys()).map(sessionId => ({
+    uri: `godot://sessions/${sessionId}`,
+    name: `session-${sessionId}`,
+    mimeType: "application/json"
+  }));
+  return { resources };
+};
+
+export const session = async (
+  uri: URL,
+  { sessionId }: any,
+  runningProjects: Map<string, ProjectRun>,
+  runSessions: Map<string, RunSession>
+) => {
+  const runSession = runSessions.get(sessionId as string);
+
+  if (!runSession) {
+    throw new Error(`No session found with ID: ${sessionId}`);
+  }
+
+  const instances = runSession.runIds.map(runId => {
+    const run = runningProjects.get(runId);
+    if (!run) {
+      // Exited runs are eventually dropped from memory, but remain archived
+      const record = getArchivedRun(runId);
+      return { runId, status: record?.status ?? 'exited', exitCode: record?.exitCode, exitReason: record?.exitReason, live: false };
+    }
+
+    return {
+      runId,
+      role: run.session?.role,
+      index: run.session?.index,
+      status: run.status,
+      generation: run.generation,
+      bridge: run.bridge?.state,
+      exitCode: run.exitCode,
+      exitReason: run.exitReason,
+      live: true
+    };
+  });
+
+  const status = {
+    id: runSession.id,
+    startTime: runSession.startTime.toISOString(),
+    running: instances.filter(instance => instance.status === 'running').length,
+    exited: instances.filter(instance => instance.status === 'exited').length,
+    instances
+  };
+
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify(status, null, 2)
+    }]
+  };
+};
@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { bridgeHeartbeatIntervalMs, bridgeHeartbeatMaxMissed, bridgeMaxPayloadBytes, projectPath as defaultProjectPath, runLogMaxBytes } from "../../config.js";
+import { type ProjectRun, type RunEvents } from "../../types.js";
+import { BridgeClient } from "../../bridge/bridge-client.js";
+import { TcpTransport } from "../../bridge/transport.js";
+import { RunArchive, pruneRunHistory } from "../../runs/history.js";
+import { applyRunLimits } from "../../runs/lifecycle.js";
+import { EventLog, recordBridgeEvents } from "../../runs/events.js";
+import { LogBuffer } from "../../runs/log-buffer.js";
+import { notifyRunResource, notifyRunStatus, notifyRunsChanged } from "../../runs/notifications.js";
+import { createLogger } from "../../utils/logger.js";
+
+const logger = createLogger("bridge");
+
+export async function attachToGame(
+  runningProjects: Map<string, ProjectRun>,
+  {
+    host = "127.0.0.1",
+    port,
+    projectPath: customProjectPath,
+    timeoutMs = 5000
+  }: {
+    host?: string | undefined;
+    port: number;
+    projectPath?: string | undefined;
+    timeoutMs?: number | undefined;
+  }
+) {
+  let transport: TcpTransport;
+  try {
+    transport = await TcpTransport.connect(host, port, timeoutMs);
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Failed to connect to ${host}:${port}: ${error instanceof Error ? error.message : error}\n` +
+          "Start the game with --mcp-bridge-port=<port> or set mcp_bridge/network/port in the project settings."
+      }]
+    };
+  }
+
+  const bridge = new BridgeClient(transport, {
+    heartbeat: { intervalMs: bridgeHeartbeatIntervalMs, maxMissed: bridgeHeartbeatMaxMissed },
+    maxPayloadBytes: bridgeMaxPayloadBytes
+  });
+  if (!await bridge.connect(timeoutMs)) {
+    bridge.destroy();
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Connected to ${host}:${port}, but ${bridge.incompatibility ?? "no MCP Bridge addon answered the handshake"}`
+      }]
+    };
+  }
+
+  const runId = randomUUID();
+  const projectRun: ProjectRun = {
+    id: runId,
+    projectPath: customProjectPath || defaultProjectPath,
+    attached: { host, port },
+    stdout: new LogBuffer(runLogMaxBytes),
+    stderr: new LogBuffer(runLogMaxBytes),
+    status: 'running',
+    startTime: new Date(),
+    generation: 1,
+    bridge,
+    bridgeConnected: true,
+    events: new EventEmitter<RunEvents>(),
+    gameEvents: new EventLog()
+  };
+
+  runningProjects.set(runId, projectRun);
+  applyRunLimits(runningProjects, projectRun);
+
+  try {
+    projectRun.archive = new RunArchive(projectRun);
+    pruneRunHistory(new Set(runningProjects.keys()));
+  } catch (error) {
+    logger.warning(`Failed to archive run ${runId}`, error);
+  }
+  notifyRunsChanged();
+
+  recordBridgeEvents(bridge, projectRun.gameEvents, () => notifyRunResource(runId, "events"));
+
+  // Anything on the connection that isn't a bridge message, as for launched runs. The
+  // game's own prints go to its console, not over the connection.
+  bridge.on("stdout", (text: string) => {
+    const offset = projectRun.stdout.endOffset;
+    projectRun.stdout.append(text);
+    projectRun.archive?.append("stdout", text);
+    projectRun.events.emit("output", { stream: "stdout", text, offset });
+    notifyRunResource(runId, "stdout");
+  });
+
+  bridge.on("unresponsive", () => {
+    logger.warning(`Attached run ${runId} stopped answering MCP Bridge heartbeats; the game may be hung`);
+    notifyRunStatus(runId);
+  });
+  bridge.on("responsive", () => notifyRunStatus(runId));
+
+  // The game outlives the connection, so the run ends when the socket does
+  transport.on("closed", () => {
+    projectRun.status = 'exited';
+    projectRun.exitReason = projectRun.stopRequested ? 'stopped' : 'exited';
+    projectRun.endTime = new Date();
+    projectRun.bridgeConnected = false;
+    projectRun.archive?.update(projectRun);
+    projectRun.archive?.close();
+    notifyRunStatus(runId);
+    projectRun.outputClosed = true;
+    projectRun.events.emit("closed");
+  });
+
+  logger.info(`Attached to ${host}:${port} (addon v${bridge.addonVersion || "?"}, protocol ${bridge.version})`);
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `Attached to game at ${host}:${port} with run ID: ${runId}\n` +
+        `MCP Bridge addon v${bridge.addonVersion || "?"} (protocol ${bridge.version}), capabilities: ${bridge.capabilities.join(", ")}\n` +
+        "Use stop_project to detach; the game keeps running."
+    }]
+  };
+}
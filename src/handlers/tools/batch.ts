@@ -0,0 +1,173 @@
+import type { ProjectRun } from "../../types.js";
+import type { BatchOperation, BatchResponse, InputPayload, ScreenshotResponse, VariantValue } from "../../bridge/types.js";
+
+/**
+ * Batch operations as the tool accepts them, with the same fields as the
+ * individual tools (get_node, set_property, call_method, send_input_*, capture_screenshot)
+ */
+export type BatchToolOperation =
+  | { op: "get"; nodePath: string; property?: string | undefined }
+  | { op: "set"; nodePath: string; property: string; value?: unknown }
+  | { op: "call"; nodePath: string; method: string; args?: unknown[] | undefined }
+  | { op: "input_action"; action: string; pressed?: boolean | undefined; strength?: number | undefined }
+  | {
+    op: "input_key";
+    keycode: number;
+    pressed?: boolean | undefined;
+    shift?: boolean | undefined;
+    ctrl?: boolean | undefined;
+    alt?: boolean | undefined;
+    meta?: boolean | undefined;
+  }
+  | { op: "input_mouse_button"; button: number; pressed?: boolean | undefined; x: number; y: number }
+  | { op: "input_mouse_motion"; relativeX: number; relativeY: number; x?: number | undefined; y?: number | undefined }
+  | { op: "screenshot"; format?: "png" | "jpeg" | undefined };
+
+// Screenshots wait for the frame to be drawn and encoded
+const BATCH_TIMEOUT_MS = 5000;
+const BATCH_SCREENSHOT_TIMEOUT_MS = 10000;
+
+function toInput(operation: BatchToolOperation): InputPayload | undefined {
+  switch (operation.op) {
+    case "input_action":
+      return {
+        type: "action",
+        data: { action: operation.action, pressed: operation.pressed ?? true, strength: operation.strength ?? 1.0 }
+      };
+    case "input_key":
+      return {
+        type: "key",
+        data: {
+          keycode: operation.keycode,
+          pressed: operation.pressed ?? true,
+          shift: operation.shift ?? false,
+          ctrl: operation.ctrl ?? false,
+          alt: operation.alt ?? false,
+          meta: operation.meta ?? false
+        }
+      };
+    case "input_mouse_button":
+      return {
+        type: "mouse_button",
+        data: { button: operation.button, pressed: operation.pressed ?? true, position: { x: operation.x, y: operation.y } }
+      };
+    case "input_mouse_motion":
+      return {
+        type: "mouse_motion",
+        data: {
+          relative: { x: operation.relativeX, y: operation.relativeY },
+          ...(operation.x !== undefined && operation.y !== undefined && { position: { x: operation.x, y: operation.y } })
+        }
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a tool operation to the bridge's batch operation
+ */
+function toBridgeOperation(operation: BatchToolOperation): BatchOperation {
+  switch (operation.op) {
+    case "get":
+      return { op: "get", path: operation.nodePath, ...(operation.property && { property: operation.property }) };
+    case "set":
+      return { op: "set", path: operation.nodePath, property: operation.property, value: (operation.value ?? null) as VariantValue };
+    case "call":
+      return { op: "call", path: operation.nodePath, method: operation.method, args: (operation.args ?? []) as VariantValue[] };
+    case "screenshot":
+      return { op: "screenshot", format: operation.format ?? "png" };
+    default:
+      return { op: "input", ...toInput(operation)! };
+  }
+}
+
+export async function runBatch(
+  runningProjects: Map<string, ProjectRun>,
+  {
+    runId,
+    operations,
+    stopOnError = false
+  }: {
+    runId: string;
+    operations: BatchToolOperation[];
+    stopOnError?: boolean | undefined;
+  }
+) {
+  const project = runningProjects.get(runId);
+
+  if (!project) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `No project found with run ID: ${runId}`
+      }]
+    };
+  }
+
+  if (project.status === 'exited') {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Project ${runId} has exited`
+      }]
+    };
+  }
+
+  if (!project.bridge || !project.bridgeConnected) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: "MCP Bridge addon not connected. Ensure the addon is installed in your Godot project and the project was launched via run_project."
+      }]
+    };
+  }
+
+  if (!project.bridge.hasCapability("batch")) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: "Bridge does not support batch capability. Update the MCP Bridge addon in the project."
+      }]
+    };
+  }
+
+  try {
+    const response = await project.bridge.sendRequest<BatchResponse>(
+      "batch",
+      { operations: operations.map(toBridgeOperation), stopOnError },
+      operations.some(operation => operation.op === "screenshot") ? BATCH_SCREENSHOT_TIMEOUT_MS : BATCH_TIMEOUT_MS
+    );
+
+    // Screenshots go out as images; the summary refers to them by position
+    const images: { type: "image"; data: string; mimeType: string }[] = [];
+    const results = response.results.map((result, index) => {
+      const operation = operations[index];
+      if (result.ok && operation?.op === "screenshot") {
+        const screenshot = result.result as ScreenshotResponse;
+        images.push({ type: "image", data: screenshot.data, mimeType: `image/${operation.format ?? "png"}` });
+        return { ...result, result: { width: screenshot.width, height: screenshot.height, image: images.length } };
+      }
+      return result;
+    });
+
+    const failed = results.filter(result => !result.ok).length;
+    const summary = `Ran ${response.completed} of ${response.total} operation(s) in one frame` +
+      (failed > 0 ? `, ${failed} failed` : "") +
+      (response.completed < response.total ? "; stopped at the first error" : "");
+
+    return {
+      content: [
+        { type: "text" as const, text: `${summary}\n${JSON.stringify(results, null, 2)}` },
+        ...images
+      ]
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Failed to run batch: ${error}`
+      }]
+    };
+  }
+}
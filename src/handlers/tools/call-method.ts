@@ -1,4 +1,5 @@
 import type { ProjectRun } from "../../types.js";
+import type { CallMethodResponse } from "../../bridge/types.js";
 
 export async function callMethod(
   runningProjects: Map<string, ProjectRun>,
@@ -53,7 +54,7 @@ export async function callMethod(
   }
 
   try {
-    const response = await project.bridge.sendRequest<{ result: unknown }>(
+    const response = await project.bridge.sendRequest<CallMethodResponse>(
       "call_method",
       { path: nodePath, method, args: args ?? [] }
     );
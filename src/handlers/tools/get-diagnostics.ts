@@ -0,0 +1,73 @@
+import type { ProjectRun } from "../../types.js";
+import { readRunLog } from "../../runs/history.js";
+import { formatLocation, parseDiagnostics, summarizeDiagnostics, type DiagnosticSeverity } from "../../runs/diagnostics.js";
+
+export async function getDiagnostics(
+  runningProjects: Map<string, ProjectRun>,
+  {
+    runId,
+    severity,
+    limit = 50
+  }: {
+    runId: string;
+    severity?: DiagnosticSeverity | undefined;
+    limit?: number | undefined;
+  }
+) {
+  let stderr: string;
+  try {
+    stderr = readRunLog(runningProjects, runId, "stderr");
+  } catch {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `No project found with run ID: ${runId}`
+      }]
+    };
+  }
+
+  const diagnostics = parseDiagnostics(stderr)
+    .filter(d => !severity || d.severity === severity);
+  const summaries = summarizeDiagnostics(diagnostics);
+
+  if (summaries.length === 0) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `No ${severity ? `${severity}s` : "errors or warnings"} reported by run ${runId}.`
+      }]
+    };
+  }
+
+  const errorCount = diagnostics.filter(d => d.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+  const lines: string[] = [
+    `${errorCount} error(s), ${warningCount} warning(s), ${summaries.length} unique:\n`
+  ];
+
+  for (const summary of summaries.slice(0, limit)) {
+    const label = `${summary.source === "engine" ? "" : `${summary.source} `}${summary.severity}`.toUpperCase();
+    const repeat = summary.count > 1 ? ` x${summary.count}` : "";
+    lines.push(`[${label}${repeat}] ${summary.message}`);
+
+    const location = formatLocation(summary);
+    if (location) {
+      lines.push(`  at ${location}`);
+    }
+    for (const frame of summary.stack) {
+      lines.push(`    ${frame.file}:${frame.line} in ${frame.function}`);
+    }
+    lines.push('');
+  }
+
+  if (summaries.length > limit) {
+    lines.push(`... ${summaries.length - limit} more unique diagnostic(s) omitted`);
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: lines.join('\n').trim()
+    }]
+  };
+}
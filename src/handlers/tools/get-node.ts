@@ -1,5 +1,6 @@
 import type { ProjectRun } from "../../types.js";
 import type { NodeInfo } from "../../bridge/types.js";
+import { toTaggedVariant } from "../../debugger/variant.js";
 
 export async function getNode(
   runningProjects: Map<string, ProjectRun>,
@@ -26,10 +27,47 @@ export async function getNode(
   }
 
   if (!project.bridge || !project.bridgeConnected) {
+    // Fall back to the remote debugger, which works without the addon
+    if (project.debugger?.connected) {
+      try {
+        const remoteNode = await project.debugger.findNode(nodePath);
+        if (!remoteNode) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Node not found: ${nodePath}`
+            }]
+          };
+        }
+
+        const inspected = await project.debugger.inspectObject(remoteNode.objectId);
+        const node: NodeInfo = {
+          name: remoteNode.name,
+          type: inspected.className || remoteNode.type,
+          path: remoteNode.path,
+          properties: Object.fromEntries(inspected.properties.map(p => [p.name, toTaggedVariant(p.type, p.value)]))
+        };
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(node, null, 2)
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Failed to get node: ${error}`
+          }]
+        };
+      }
+    }
+
     return {
       content: [{
         type: "text" as const,
-        text: "MCP Bridge addon not connected. Ensure the addon is installed in your Godot project and the project was launched via run_project."
+        text: "Neither the MCP Bridge addon nor the remote debugger is connected. Ensure the project was launched via run_project."
       }]
     };
   }
@@ -1,5 +1,16 @@
 import type { ProjectRun } from "../../types.js";
 import type { NodeInfo } from "../../bridge/types.js";
+import type { RemoteNode } from "../../debugger/types.js";
+
+function remoteNodeToNodeInfo(node: RemoteNode): NodeInfo {
+  return {
+    name: node.name,
+    type: node.type,
+    path: node.path,
+    properties: {},
+    ...(node.children.length > 0 && { children: node.children.map(remoteNodeToNodeInfo) })
+  };
+}
 
 export async function getSceneTree(
   runningProjects: Map<string, ProjectRun>,
@@ -26,10 +37,30 @@ export async function getSceneTree(
   }
 
   if (!project.bridge || !project.bridgeConnected) {
+    // Fall back to the remote debugger, which works without the addon
+    if (project.debugger?.connected) {
+      try {
+        const root = await project.debugger.requestSceneTree();
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(remoteNodeToNodeInfo(root), null, 2)
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Failed to get scene tree: ${error}`
+          }]
+        };
+      }
+    }
+
     return {
       content: [{
         type: "text" as const,
-        text: "MCP Bridge addon not connected. Ensure the addon is installed in your Godot project and the project was launched via run_project."
+        text: "Neither the MCP Bridge addon nor the remote debugger is connected. Ensure the project was launched via run_project."
       }]
     };
   }
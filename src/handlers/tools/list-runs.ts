@@ -0,0 +1,63 @@
+import type { ProjectRun } from "../../types.js";
+import { countActiveRuns, remainingSeconds } from "../../runs/lifecycle.js";
+import { maxConcurrentRuns } from "../../config.js";
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+export async function listRuns(
+  runningProjects: Map<string, ProjectRun>,
+  { includeExited = true }: { includeExited?: boolean | undefined }
+) {
+  const now = Date.now();
+  const runs = Array.from(runningProjects.values())
+    .filter(run => includeExited || run.status === 'running');
+
+  if (runs.length === 0) {
+    return {
+      content: [{ type: "text" as const, text: "No runs in this session." }]
+    };
+  }
+
+  const limit = maxConcurrentRuns === 0 ? "no limit" : `limit ${maxConcurrentRuns}`;
+  const lines: string[] = [`${countActiveRuns(runningProjects)} active run(s) (${limit}):\n`];
+
+  for (const run of runs) {
+    const uptime = Math.round(((run.endTime?.getTime() ?? now) - run.startTime.getTime()) / 1000);
+    const details = [
+      `uptime ${formatDuration(uptime)}`,
+      run.launch?.profile && `profile ${run.launch.profile}`,
+      run.attached && `attached to ${run.attached.host}:${run.attached.port}`,
+      run.bridge && `bridge ${run.bridge.unresponsive ? "unresponsive" : run.bridge.state}`
+    ];
+
+    if (run.status === 'running') {
+      const remaining = remainingSeconds(run, now);
+      if (remaining !== undefined && run.deadline) {
+        const budget = Math.round((run.deadline.getTime() - run.startTime.getTime()) / 1000);
+        details.push(`${formatDuration(remaining)} left of ${formatDuration(budget)}`);
+      } else {
+        details.push("no time limit");
+      }
+    } else {
+      details.push(`${run.exitReason ?? "exited"}${run.exitCode !== undefined ? ` with code ${run.exitCode}` : ""}`);
+    }
+
+    lines.push(`${run.id} [${run.status}] ${run.projectPath}`);
+    lines.push(`  ${details.filter(Boolean).join(", ")}`);
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: lines.join('\n')
+    }]
+  };
+}
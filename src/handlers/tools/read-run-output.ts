@@ -0,0 +1,105 @@
+import type { ProjectRun } from "../../types.js";
+import { readArchivedLog, type LogStream } from "../../runs/history.js";
+import { readFullLog, utf8SuffixStart, type LogRead } from "../../runs/log-buffer.js";
+
+export async function readRunOutput(
+  runningProjects: Map<string, ProjectRun>,
+  {
+    runId,
+    stream = "stdout",
+    sinceOffset,
+    tail,
+    grep,
+    maxBytes = 65536
+  }: {
+    runId: string;
+    stream?: LogStream | undefined;
+    sinceOffset?: number | undefined;
+    tail?: number | undefined;
+    grep?: string | undefined;
+    maxBytes?: number | undefined;
+  }
+) {
+  let pattern: RegExp | undefined;
+  if (grep) {
+    try {
+      pattern = new RegExp(grep);
+    } catch (error) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Invalid grep pattern: ${error instanceof Error ? error.message : error}`
+        }]
+      };
+    }
+  }
+
+  // Plain reads are paged by maxBytes; filtered reads consume everything since the offset
+  const filtered = pattern !== undefined || tail !== undefined;
+  const readLimit = filtered ? undefined : maxBytes;
+
+  const projectRun = runningProjects.get(runId);
+  let read: LogRead;
+  let endOffset: number;
+
+  if (projectRun) {
+    read = projectRun[stream].read(sinceOffset, readLimit);
+    endOffset = projectRun[stream].endOffset;
+  } else {
+    const archived = readArchivedLog(runId, stream);
+    if (archived === null) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `No project found with run ID: ${runId}`
+        }]
+      };
+    }
+    read = readFullLog(archived, sinceOffset, readLimit);
+    endOffset = Buffer.byteLength(archived, "utf-8");
+  }
+
+  let text = read.text;
+  let clipped = false;
+
+  if (filtered) {
+    let lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+    if (pattern) {
+      lines = lines.filter(line => pattern.test(line));
+    }
+    if (tail !== undefined) {
+      lines = lines.slice(-tail);
+    }
+    text = lines.join("\n");
+
+    // Keep the most recent output when a filtered result is still too large
+    const bytes = Buffer.from(text, "utf-8");
+    if (bytes.length > maxBytes) {
+      text = bytes.subarray(utf8SuffixStart(bytes, maxBytes)).toString("utf-8");
+      clipped = true;
+    }
+  }
+
+  const header: string[] = [
+    `[${stream}] offsets ${read.fromOffset}-${read.nextOffset} of ${endOffset}; pass sinceOffset=${read.nextOffset} to continue`
+  ];
+  if (read.droppedBytes > 0) {
+    header.push(`${read.droppedBytes} byte(s) before offset ${read.fromOffset} are no longer held in memory`);
+  }
+  if (!filtered && read.nextOffset < endOffset) {
+    header.push(`Output truncated at ${maxBytes} bytes`);
+  }
+  if (clipped) {
+    header.push(`Filtered output clipped to the last ${maxBytes} bytes`);
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `${header.join("\n")}\n---\n${text}`
+    }]
+  };
+}
@@ -0,0 +1,104 @@
+import { once } from "events";
+import type { ProjectRun } from "../../types.js";
+import { notifyRunsChanged } from "../../runs/notifications.js";
+import { stopRun } from "../../runs/shutdown.js";
+import { createLogger } from "../../utils/logger.js";
+import { runProject } from "./run-project.js";
+
+const logger = createLogger("runs");
+
+const CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * Move a finished generation to `<runId>@<generation>` so the run ID is free for the next one
+ */
+function retireGeneration(runningProjects: Map<string, ProjectRun>, run: ProjectRun, newId: string): void {
+  runningProjects.delete(run.id);
+  run.id = newId;
+  runningProjects.set(newId, run);
+
+  try {
+    run.archive?.moveTo(run);
+  } catch (error) {
+    logger.warning(`Failed to move archive of run ${newId}`, error);
+  }
+}
+
+export async function restartProject(
+  runningProjects: Map<string, ProjectRun>,
+  { runId }: { runId: string }
+) {
+  const previous = runningProjects.get(runId);
+  if (!previous) {
+    return {
+      content: [{ type: "text" as const, text: `No project found with run ID: ${runId}` }]
+    };
+  }
+
+  // Earlier generations are kept as <runId>@<generation> only for their output
+  const retired = /^(.+)@\d+$/.exec(runId);
+  if (retired) {
+    return {
+      content: [{ type: "text" as const, text: `Run ${runId} is an earlier generation; restart the current one, ${retired[1]}, instead` }]
+    };
+  }
+
+  if (!previous.launch) {
+    return {
+      content: [{ type: "text" as const, text: `Run ${runId} is an attached game, which this server didn't launch and can't restart` }]
+    };
+  }
+  const request = previous.launch.request;
+
+  if (previous.status === 'running') {
+    try {
+      await stopRun(previous);
+    } catch (error) {
+      return {
+        content: [{ type: "text" as const, text: `Failed to stop project ${runId}: ${error}` }]
+      };
+    }
+  }
+  previous.bridge?.destroy();
+  previous.debugger?.close();
+
+  // Let the last output reach the archive before it moves
+  if (previous.archive && !previous.archive.isClosed) {
+    await once(previous.events, "closed", { signal: AbortSignal.timeout(CLOSE_TIMEOUT_MS) }).catch(() => {});
+  }
+
+  const retiredId = `${runId}@${previous.generation}`;
+  retireGeneration(runningProjects, previous, retiredId);
+
+  const generation = previous.generation + 1;
+  const result = await runProject(runningProjects, request, {
+    runId,
+    generation,
+    previousRunIds: [...previous.previousRunIds ?? [], retiredId],
+    ...(previous.session && { session: previous.session })
+  });
+
+  const run = runningProjects.get(runId);
+  if (!run) {
+    // The relaunch failed, so the previous generation keeps the run ID
+    retireGeneration(runningProjects, previous, runId);
+    return result;
+  }
+  notifyRunsChanged();
+
+  const connected = await run.bridge?.waitForConnection();
+  if (run.status === 'exited') {
+    return result;
+  }
+  const bridgeStatus = connected
+    ? `MCP Bridge reconnected (addon v${run.bridge!.addonVersion || "?"})`
+    : `MCP Bridge ${run.bridge?.state ?? "unavailable"}`;
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `Restarted run ${runId} (generation ${generation})\n${bridgeStatus}\n` +
+        `Previous generation's output: godot://runs/${retiredId}/stdout, godot://runs/${retiredId}/stderr`
+    }]
+  };
+}
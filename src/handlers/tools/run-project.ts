@@ -1,13 +1,51 @@
 import { type ChildProcess, spawn } from "child_process";
 import { randomUUID } from "crypto";
-import { godotPath, projectPath as defaultProjectPath } from "../../config.js";
-import { type ProjectRun } from "../../types.js";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { bridgeConnectTimeoutMs, bridgeHeartbeatIntervalMs, bridgeHeartbeatMaxMissed, bridgeMaxPayloadBytes, godotPath, metricsIntervalMs, projectPath as defaultProjectPath, runLogMaxBytes } from "../../config.js";
+import { type ProjectRun, type RunEvents, type RunSessionMembership } from "../../types.js";
 import { BridgeClient } from "../../bridge/bridge-client.js";
+import { StdioTransport } from "../../bridge/transport.js";
+import { DebuggerClient } from "../../debugger/debugger-client.js";
+import { type LaunchOptions, type RunRequest, launchOptionsToArgs, validateLaunchOptions } from "../../runs/launch.js";
+import { type LaunchProfile, getProfile } from "../../runs/profiles.js";
+import { isCrashSignal, parseCrashOutput } from "../../runs/crash.js";
+import { applyRunLimits, checkConcurrentRunLimit, reserveRunSlot } from "../../runs/lifecycle.js";
+import { stopRun } from "../../runs/shutdown.js";
+import { RunArchive, pruneRunHistory, type LogStream } from "../../runs/history.js";
+import { EventLog, recordBridgeEvents } from "../../runs/events.js";
+import { LogBuffer } from "../../runs/log-buffer.js";
+import { MetricsSampler } from "../../runs/metrics.js";
+import { notifyRunResource, notifyRunStatus, notifyRunsChanged, notifySession } from "../../runs/notifications.js";
+import { createLogger } from "../../utils/logger.js";
+
+const logger = createLogger("bridge");
+
+// Identity assigned by the caller instead of a fresh run, for restart_project and run_session
+export interface RunIdentity {
+  runId: string;
+  generation?: number;
+  previousRunIds?: string[];
+  session?: RunSessionMembership;
+}
 
 export async function runProject(
   runningProjects: Map<string, ProjectRun>,
-  { projectPath: customProjectPath, args }: { projectPath?: string | undefined; args?: string[] | undefined }
+  request: RunRequest,
+  identity?: RunIdentity
 ) {
+  const {
+    projectPath: customProjectPath,
+    args: callArgs,
+    remoteDebug = true,
+    profile: profileName,
+    env: callEnv,
+    cwd: callCwd,
+    userArgs: callUserArgs,
+    maxDurationSeconds: callMaxDuration,
+    ...callOptions
+  } = request;
   const targetProjectPath = customProjectPath || defaultProjectPath;
   if (!targetProjectPath) {
     return {
@@ -15,11 +53,72 @@ export async function runProject(
     };
   }
 
-  const runId = randomUUID();
+  let profile: LaunchProfile | undefined;
+  if (profileName) {
+    try {
+      profile = getProfile(targetProjectPath, profileName);
+    } catch (error) {
+      return {
+        content: [{ type: "text" as const, text: error instanceof Error ? error.message : String(error) }]
+      };
+    }
+  }
+
+  // Options passed to the tool take precedence over the profile; args are appended to the profile's
+  const {
+    args: profileArgs,
+    env: profileEnv,
+    cwd: profileCwd,
+    userArgs: profileUserArgs,
+    maxDurationSeconds: profileMaxDuration,
+    bridgeTimeoutMs = bridgeConnectTimeoutMs,
+    requireBridge = false,
+    description: _description,
+    ...profileOptions
+  } = profile ?? {};
+  const launchOptions: LaunchOptions = Object.fromEntries(
+    Object.entries({ ...profileOptions, ...callOptions }).filter(([, value]) => value !== undefined)
+  );
+  const args = profileArgs || callArgs ? [...profileArgs ?? [], ...callArgs ?? []] : undefined;
+  const userArgs = callUserArgs ?? profileUserArgs;
+  const maxDurationSeconds = callMaxDuration ?? profileMaxDuration;
+  const envOverrides = profileEnv || callEnv ? { ...profileEnv, ...callEnv } : undefined;
+  const env = envOverrides ? { ...process.env, ...envOverrides } : undefined;
+
+  // A relative cwd is relative to the project, and --path must survive the change of directory
+  const cwd = callCwd ?? profileCwd;
+  const resolvedCwd = cwd ? path.resolve(targetProjectPath, cwd) : undefined;
+  if (resolvedCwd && !fs.statSync(resolvedCwd, { throwIfNoEntry: false })?.isDirectory()) {
+    return {
+      content: [{ type: "text" as const, text: `Working directory does not exist: ${resolvedCwd}` }]
+    };
+  }
+
+  const problems = validateLaunchOptions(launchOptions, args);
+  if (problems.length > 0) {
+    return {
+      content: [{ type: "text" as const, text: `Invalid launch options:\n- ${problems.join("\n- ")}` }]
+    };
+  }
+
+  const limitError = checkConcurrentRunLimit(runningProjects);
+  if (limitError) {
+    return {
+      content: [{ type: "text" as const, text: limitError }]
+    };
+  }
+  const releaseRunSlot = reserveRunSlot();
+
+  const runId = identity?.runId ?? randomUUID();
+  let debuggerClient: DebuggerClient | undefined;
 
   try {
     // Add --mcp-bridge flag to enable bridge communication
-    const godotArgs = ["--path", targetProjectPath, "--mcp-bridge"];
+    const godotArgs = [
+      "--path", resolvedCwd ? path.resolve(targetProjectPath) : targetProjectPath,
+      "--mcp-bridge",
+      ...launchOptionsToArgs(launchOptions)
+    ];
     if (args) {
       godotArgs.push(...args);
     }
@@ -30,75 +129,237 @@ export async function runProject(
       };
     }
 
+    // Attach Godot's built-in remote debugger unless the caller configured one themselves
+    if (remoteDebug && !godotArgs.includes("--remote-debug")) {
+      debuggerClient = new DebuggerClient();
+      const port = await debuggerClient.listen();
+      godotArgs.push("--remote-debug", `tcp://127.0.0.1:${port}`);
+    }
+
+    // The scene is positional, so it follows every flag
+    if (launchOptions.scene) {
+      godotArgs.push(launchOptions.scene);
+    }
+
+    // Everything after -- is left to the game, see OS.get_cmdline_user_args()
+    if (userArgs) {
+      godotArgs.push("--", ...userArgs);
+    }
+
     // Use pipe for stdin to enable bidirectional communication
     const process: ChildProcess = spawn(godotPath, godotArgs, {
-      stdio: ["pipe", "pipe", "pipe"]
+      stdio: ["pipe", "pipe", "pipe"],
+      ...(env && { env }),
+      ...(resolvedCwd && { cwd: resolvedCwd })
     });
 
     // Create bridge client
-    const bridge = new BridgeClient(process);
+    const bridge = new BridgeClient(new StdioTransport(process), {
+      heartbeat: { intervalMs: bridgeHeartbeatIntervalMs, maxMissed: bridgeHeartbeatMaxMissed },
+      maxPayloadBytes: bridgeMaxPayloadBytes
+    });
 
+    const startTime = new Date();
     const projectRun: ProjectRun = {
       id: runId,
       process,
       projectPath: targetProjectPath,
-      stdout: [],
-      stderr: [],
+      stdout: new LogBuffer(runLogMaxBytes),
+      stderr: new LogBuffer(runLogMaxBytes),
       status: 'running',
-      startTime: new Date(),
+      startTime,
+      ...(maxDurationSeconds && { deadline: new Date(startTime.getTime() + maxDurationSeconds * 1000) }),
       bridge,
       bridgeConnected: false,
+      events: new EventEmitter<RunEvents>(),
+      gameEvents: new EventLog(),
+      generation: identity?.generation ?? 1,
+      ...(identity?.previousRunIds && { previousRunIds: identity.previousRunIds }),
+      ...(identity?.session && { session: identity.session }),
+      launch: {
+        request,
+        options: launchOptions,
+        godotArgs,
+        ...(profileName && { profile: profileName }),
+        ...(envOverrides && { env: envOverrides }),
+        ...(resolvedCwd && { cwd: resolvedCwd }),
+        ...(userArgs && { userArgs }),
+        ...(maxDurationSeconds && { maxDurationSeconds })
+      },
+      ...(debuggerClient && { debugger: debuggerClient }),
       ...(args && { args })
     };
 
     runningProjects.set(runId, projectRun);
+    releaseRunSlot();
+    applyRunLimits(runningProjects, projectRun);
+
+    // Archive metadata and logs so the run outlives this server
+    try {
+      projectRun.archive = new RunArchive(projectRun);
+      pruneRunHistory(new Set(runningProjects.keys()));
+    } catch (error) {
+      logger.warning(`Failed to archive run ${runId}`, error);
+    }
+    notifyRunsChanged();
+
+    if (process.pid !== undefined && metricsIntervalMs > 0) {
+      projectRun.metrics = new MetricsSampler(process.pid, metricsIntervalMs, () => notifyRunResource(runId, "metrics"));
+      projectRun.metrics.start();
+    }
+
+    // The debugger connecting lets debugger-backed tools be listed
+    debuggerClient?.on("connected", () => notifyRunStatus(runId));
+    debuggerClient?.on("disconnected", () => notifyRunStatus(runId));
+
+    debuggerClient?.on("script_error", (error) => {
+      projectRun.gameEvents.append("error", "debugger", error);
+      notifyRunResource(runId, "errors", "events");
+    });
+
+    recordBridgeEvents(bridge, projectRun.gameEvents, () => notifyRunResource(runId, "events"));
+
+    const recordOutput = (stream: LogStream, text: string) => {
+      const offset = projectRun[stream].endOffset;
+      projectRun[stream].append(text);
+      projectRun.archive?.append(stream, text);
+      projectRun.events.emit("output", { stream, text, offset });
+    };
 
     // Bridge client filters stdout - non-bridge text is emitted as 'stdout' event
     bridge.on("stdout", (text) => {
-      projectRun.stdout.push(text);
+      recordOutput("stdout", text);
+      notifyRunResource(runId, "stdout");
     });
 
     // Capture stderr directly
     process.stderr?.on("data", (data) => {
-      const output = data.toString();
-      projectRun.stderr.push(output);
+      recordOutput("stderr", data.toString());
+      notifyRunResource(runId, "stderr", "diagnostics");
     });
 
     // Handle process exit
-    process.on("exit", (code) => {
+    process.on("exit", (code, signal) => {
       projectRun.status = 'exited';
-      projectRun.exitCode = code || 0;
+      if (code !== null) {
+        projectRun.exitCode = code;
+      }
+      if (signal) {
+        projectRun.exitSignal = signal;
+      }
+      if (projectRun.stopRequested) {
+        projectRun.exitReason = projectRun.timedOut ? 'timeout' : 'stopped';
+      } else {
+        // A non-zero exit code on its own is the game quitting with an error, not a crash
+        projectRun.exitReason = isCrashSignal(signal ?? undefined) ? 'crashed' : 'exited';
+      }
+      projectRun.endTime = new Date();
       projectRun.bridgeConnected = false;
+      projectRun.metrics?.stop();
+      projectRun.archive?.update(projectRun);
+      debuggerClient?.close();
+      notifyRunStatus(runId);
+      if (projectRun.session) {
+        notifySession(projectRun.session.id);
+      }
     });
 
     // Handle process errors
     process.on("error", (error) => {
-      projectRun.stderr.push(`Failed to start Godot: ${error.message}`);
+      recordOutput("stderr", `Failed to start Godot: ${error.message}`);
       projectRun.status = 'exited';
       projectRun.exitCode = 1;
+      projectRun.exitReason = 'exited';
+      projectRun.endTime = new Date();
       projectRun.bridgeConnected = false;
+      projectRun.archive?.update(projectRun);
+      projectRun.archive?.close();
+      debuggerClient?.close();
+      notifyRunStatus(runId);
+      projectRun.outputClosed = true;
+      projectRun.events.emit("closed");
     });
 
-    // Attempt bridge handshake after a short delay to allow Godot to initialize
-    setTimeout(async () => {
-      try {
-        const connected = await bridge.handshake(3000);
-        projectRun.bridgeConnected = connected;
-        if (connected) {
-          console.error(`[MCP Bridge] Connected to addon v${bridge.version}, capabilities: ${bridge.capabilities.join(", ")}`);
-        }
-      } catch {
-        // Handshake failed - addon likely not installed, which is fine
-        projectRun.bridgeConnected = false;
+    // Output may still arrive between 'exit' and the stdio streams closing
+    process.on("close", () => {
+      // The crash handler's backtrace is only complete once stderr has been drained.
+      // Classified the same way as the crash report.
+      const crashed = isCrashSignal(projectRun.exitSignal, projectRun.stopRequested) ||
+        parseCrashOutput(projectRun.stderr.toString()) !== null;
+      if (crashed) {
+        projectRun.exitReason = 'crashed';
+        logger.warning(`Run ${runId} crashed, see godot://runs/${runId}/crash`);
+        notifyRunResource(runId, "crash");
+        notifyRunStatus(runId);
       }
-    }, 500);
+
+      projectRun.archive?.update(projectRun);
+      projectRun.archive?.close();
+      projectRun.outputClosed = true;
+      projectRun.events.emit("closed");
+    });
+
+    bridge.on("connected", () => {
+      projectRun.bridgeConnected = true;
+      logger.info(`Connected to addon v${bridge.addonVersion || "?"} (protocol ${bridge.version}), capabilities: ${bridge.capabilities.join(", ")}`);
+      notifyRunStatus(runId);
+    });
+
+    bridge.on("disconnected", () => {
+      projectRun.bridgeConnected = false;
+    });
+
+    bridge.on("incompatible", (reason: string) => {
+      logger.warning(`Run ${runId}: ${reason}`);
+      notifyRunStatus(runId);
+    });
+
+    bridge.on("unresponsive", () => {
+      logger.warning(`Run ${runId} stopped answering MCP Bridge heartbeats; the game may be hung`);
+      notifyRunStatus(runId);
+    });
+
+    bridge.on("responsive", () => {
+      logger.info(`Run ${runId} is answering MCP Bridge heartbeats again`);
+      notifyRunStatus(runId);
+    });
+
+    // Keep retrying until the addon answers; it's fine if it never does (addon not installed)
+    const bridgeReady = bridge.connect(bridgeTimeoutMs).then((connected) => {
+      if (!connected && projectRun.status === 'running' && bridge.state !== "incompatible") {
+        logger.info(`MCP Bridge addon did not respond within ${bridgeTimeoutMs}ms for run ${runId}`);
+        notifyRunStatus(runId);
+      }
+      return connected;
+    });
+
+    // Unless the profile depends on the bridge, in which case a run without it is useless
+    if (requireBridge && !await bridgeReady) {
+      await stopRun(projectRun);
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Profile '${profileName}' requires the MCP Bridge addon, but ` +
+            (bridge.incompatibility ?? `it did not connect within ${bridgeTimeoutMs}ms.`) + ` Run ${runId} was stopped.`
+        }]
+      };
+    }
 
     return {
-      content: [{ type: "text" as const, text: `Godot project started with run ID: ${runId}\nProject path: ${targetProjectPath}` }]
+      content: [{
+        type: "text" as const,
+        text: `Godot project started with run ID: ${runId}\nProject path: ${targetProjectPath}` +
+          (profileName ? `\nProfile: ${profileName}` : "") +
+          (maxDurationSeconds ? `\nWill be stopped after ${maxDurationSeconds}s` : "") +
+          (debuggerClient ? `\nRemote debugger listening on port ${debuggerClient.port}` : "")
+      }]
     };
   } catch (error) {
+    debuggerClient?.close();
     return {
       content: [{ type: "text" as const, text: `Failed to launch Godot: ${error}` }]
     };
+  } finally {
+    releaseRunSlot();
   }
 }
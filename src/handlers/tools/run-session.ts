@@ -0,0 +1,138 @@
+import { randomUUID } from "crypto";
+import type { ProjectRun, RunSession } from "../../types.js";
+import type { RunRequest } from "../../runs/launch.js";
+import { notifyRunsChanged, notifySession } from "../../runs/notifications.js";
+import { runProject } from "./run-project.js";
+import { stopProject } from "./stop-project.js";
+
+export interface SessionInstance {
+  role: string;
+  count?: number | undefined;
+  args?: string[] | undefined;
+  userArgs?: string[] | undefined;
+  env?: Record<string, string> | undefined;
+}
+
+/**
+ * Replace {index} with the instance's position among those with the same role
+ */
+function expand(values: string[] | undefined, index: number): string[] {
+  return (values ?? []).map(value => value.replaceAll("{index}", String(index)));
+}
+
+/**
+ * Combine the session template with one instance's additions, replacing {index}
+ * in both
+ */
+function instanceRequest(template: RunRequest, instance: SessionInstance, index: number): RunRequest {
+  const args = expand([...template.args ?? [], ...instance.args ?? []], index);
+  const userArgs = expand([...template.userArgs ?? [], ...instance.userArgs ?? []], index);
+  const env = template.env || instance.env
+    ? Object.fromEntries(Object.entries({ ...template.env, ...instance.env }).map(([key, value]) => [key, expand([value], index)[0]!]))
+    : undefined;
+
+  return {
+    ...template,
+    ...(args.length > 0 && { args }),
+    ...(userArgs.length > 0 && { userArgs }),
+    ...(env && { env })
+  };
+}
+
+export async function runSession(
+  runningProjects: Map<string, ProjectRun>,
+  runSessions: Map<string, RunSession>,
+  {
+    template = {},
+    instances,
+    ordered = true
+  }: {
+    template?: RunRequest | undefined;
+    instances: SessionInstance[];
+    ordered?: boolean | undefined;
+  }
+) {
+  const session: RunSession = {
+    id: randomUUID(),
+    startTime: new Date(),
+    runIds: []
+  };
+  const lines: string[] = [];
+
+  // Undo a partially started session so no instances are left behind
+  const abort = async (reason: string) => {
+    await Promise.all(session.runIds.map(runId => stopProject(runningProjects, { runId })));
+    // The session never fully started, so it isn't listed under godot://sessions/
+    runSessions.delete(session.id);
+    notifyRunsChanged();
+    return {
+      content: [{
+        type: "text" as const,
+        text: [...lines, reason, `Stopped the ${session.runIds.length} instance(s) already started.`].join("\n")
+      }]
+    };
+  };
+
+  for (const instance of instances) {
+    for (let index = 0; index < (instance.count ?? 1); index++) {
+      const runId = randomUUID();
+      const label = `${instance.role}#${index}`;
+      const result = await runProject(runningProjects, instanceRequest(template, instance, index), {
+        runId,
+        session: { id: session.id, role: instance.role, index }
+      });
+
+      const run = runningProjects.get(runId);
+      if (!run) {
+        return abort(`Failed to start ${label}: ${result.content[0]!.text}`);
+      }
+      session.runIds.push(runId);
+      runSessions.set(session.id, session);
+
+      // Start the next instance only once this one is up, e.g. clients after the server
+      if (ordered && !await run.bridge?.waitForConnection()) {
+        return abort(`${label} (run ${runId}) did not connect to the MCP Bridge addon (bridge ${run.bridge?.state ?? "unavailable"}).`);
+      }
+      lines.push(`${label}: run ${runId}`);
+    }
+  }
+  notifySession(session.id);
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `Started session ${session.id} with ${session.runIds.length} instance(s):\n${lines.join("\n")}\n` +
+        `Inspect it via godot://sessions/${session.id} and stop it with stop_session.`
+    }]
+  };
+}
+
+export async function stopSession(
+  runningProjects: Map<string, ProjectRun>,
+  runSessions: Map<string, RunSession>,
+  { sessionId }: { sessionId: string }
+) {
+  const session = runSessions.get(sessionId);
+  if (!session) {
+    return {
+      content: [{ type: "text" as const, text: `No session found with ID: ${sessionId}` }]
+    };
+  }
+
+  // Stop in reverse launch order, e.g. clients before the server they connect to
+  const results: string[] = [];
+  for (const runId of [...session.runIds].reverse()) {
+    const run = runningProjects.get(runId);
+    const label = run?.session ? `${run.session.role}#${run.session.index}` : runId;
+    const result = await stopProject(runningProjects, { runId });
+    results.push(`${label}: ${result.content[0]!.text}`);
+  }
+  notifySession(sessionId);
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `Stopped session ${sessionId}:\n${results.join("\n")}`
+    }]
+  };
+}
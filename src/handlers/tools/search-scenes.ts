@@ -2,6 +2,9 @@ import { isGodotScene } from "@fernforestgames/godot-resource-parser";
 import { projectPath } from "../../config.js";
 import { findGodotFiles, parseGodotFile } from "../../utils/files.js";
 import { getFullNodePath } from "../../utils/scenes.js";
+import { createLogger } from "../../utils/logger.js";
+
+const logger = createLogger("scenes");
 
 export async function searchScenes({
   nodeType,
@@ -63,7 +66,7 @@ export async function searchScenes({
       }
     } catch (error) {
       // Skip scenes we can't parse
-      console.error(`Warning: Failed to parse scene ${scenePath}:`, error);
+      logger.warning(`Failed to parse scene ${scenePath}`, error);
     }
   }
 
@@ -1,4 +1,6 @@
 import type { ProjectRun } from "../../types.js";
+import type { SetPropertyResponse } from "../../bridge/types.js";
+import { toTaggedVariant } from "../../debugger/variant.js";
 
 export async function setProperty(
   runningProjects: Map<string, ProjectRun>,
@@ -35,10 +37,54 @@ export async function setProperty(
   }
 
   if (!project.bridge || !project.bridgeConnected) {
+    // Fall back to the remote debugger, which works without the addon
+    if (project.debugger?.connected) {
+      try {
+        const remoteNode = await project.debugger.findNode(nodePath);
+        if (!remoteNode) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Node not found: ${nodePath}`
+            }]
+          };
+        }
+
+        // The debugger does not acknowledge property changes, so read the property
+        // back; the game handles the two messages in order
+        project.debugger.setObjectProperty(remoteNode.objectId, property, value);
+        const inspected = await project.debugger.inspectObject(remoteNode.objectId);
+        const applied = inspected.properties.find(p => p.name === property);
+        if (!applied) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Node '${remoteNode.path}' has no property '${property}'; nothing was set`
+            }]
+          };
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Property '${property}' set on node '${remoteNode.path}' via remote debugger. ` +
+              `Value read back: ${JSON.stringify(toTaggedVariant(applied.type, applied.value))}`
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Failed to set property: ${error}`
+          }]
+        };
+      }
+    }
+
     return {
       content: [{
         type: "text" as const,
-        text: "MCP Bridge addon not connected. Ensure the addon is installed in your Godot project and the project was launched via run_project."
+        text: "Neither the MCP Bridge addon nor the remote debugger is connected. Ensure the project was launched via run_project."
       }]
     };
   }
@@ -53,7 +99,7 @@ export async function setProperty(
   }
 
   try {
-    await project.bridge.sendRequest<{ success: boolean }>(
+    const response = await project.bridge.sendRequest<SetPropertyResponse>(
       "set_property",
       { path: nodePath, property, value }
     );
@@ -61,7 +107,8 @@ export async function setProperty(
     return {
       content: [{
         type: "text" as const,
-        text: `Property '${property}' set successfully on node '${nodePath}'`
+        text: `Property '${property}' set successfully on node '${nodePath}'` +
+          (response.value !== undefined ? `. New value: ${JSON.stringify(response.value)}` : "")
       }]
     };
   } catch (error) {
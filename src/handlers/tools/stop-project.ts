@@ -1,4 +1,12 @@
 import { type ProjectRun } from "../../types.js";
+import { stopRun } from "../../runs/shutdown.js";
+
+const STOP_METHOD_DESCRIPTIONS = {
+  quit: "quit request via MCP Bridge",
+  SIGTERM: "SIGTERM",
+  SIGKILL: "SIGKILL after the game ignored SIGTERM",
+  detach: "detaching (the attached game keeps running)"
+} as const;
 
 export async function stopProject(
   runningProjects: Map<string, ProjectRun>,
@@ -18,14 +26,20 @@ export async function stopProject(
   }
 
   try {
-    // Clean up bridge client
-    if (projectRun.bridge) {
-      projectRun.bridge.destroy();
-    }
+    const method = await stopRun(projectRun);
+
+    // Clean up bridge and debugger clients once the game is gone
+    projectRun.bridge?.destroy();
+    projectRun.debugger?.close();
+
+    const details = [
+      method && `via ${STOP_METHOD_DESCRIPTIONS[method]}`,
+      projectRun.exitCode !== undefined && `exit code ${projectRun.exitCode}`,
+      projectRun.exitSignal && `signal ${projectRun.exitSignal}`
+    ].filter(Boolean).join(", ");
 
-    projectRun.process.kill();
     return {
-      content: [{ type: "text" as const, text: `Stopped project with run ID: ${runId}` }]
+      content: [{ type: "text" as const, text: `Stopped project with run ID: ${runId}${details ? ` (${details})` : ""}` }]
     };
   } catch (error) {
     return {
@@ -0,0 +1,171 @@
+import type { ProjectRun, RunOutputEvent } from "../../types.js";
+import type { LogStream } from "../../runs/history.js";
+
+type WaitResult =
+  | { kind: "matched"; stream: LogStream; line: string; offset: number }
+  | { kind: "exited" }
+  | { kind: "timeout" };
+
+/**
+ * Splits a stream into complete lines, tracking the offset each line starts at
+ */
+class LineScanner {
+  private partial = "";
+  private partialOffset = 0;
+
+  constructor(private stream: LogStream, private pattern: RegExp) {}
+
+  /**
+   * Feed a chunk of output; returns the first matching complete line, if any
+   */
+  push(text: string, offset: number): WaitResult | null {
+    if (this.partial === "") {
+      this.partialOffset = offset;
+    }
+
+    const lines = (this.partial + text).split("\n");
+    this.partial = lines.pop() ?? "";
+
+    let lineOffset = this.partialOffset;
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, "");
+      if (this.pattern.test(line)) {
+        return { kind: "matched", stream: this.stream, line, offset: lineOffset };
+      }
+      lineOffset += Buffer.byteLength(rawLine, "utf-8") + 1;
+    }
+
+    this.partialOffset = lineOffset;
+    return null;
+  }
+
+  /**
+   * Check the trailing line that was never terminated by a newline
+   */
+  flush(): WaitResult | null {
+    const line = this.partial.replace(/\r$/, "");
+    this.partial = "";
+    return line && this.pattern.test(line)
+      ? { kind: "matched", stream: this.stream, line, offset: this.partialOffset }
+      : null;
+  }
+}
+
+function waitForMatch(
+  project: ProjectRun,
+  scanners: Map<LogStream, LineScanner>,
+  timeoutMs: number
+): Promise<WaitResult> {
+  return new Promise((resolve) => {
+    const finish = (result: WaitResult) => {
+      clearTimeout(timeout);
+      project.events.off("output", onOutput);
+      project.events.off("closed", onClosed);
+      resolve(result);
+    };
+
+    const onOutput = ({ stream, text, offset }: RunOutputEvent) => {
+      const match = scanners.get(stream)?.push(text, offset);
+      if (match) {
+        finish(match);
+      }
+    };
+
+    const onClosed = () => {
+      for (const scanner of scanners.values()) {
+        const match = scanner.flush();
+        if (match) {
+          finish(match);
+          return;
+        }
+      }
+      finish({ kind: "exited" });
+    };
+
+    const timeout = setTimeout(() => finish({ kind: "timeout" }), timeoutMs);
+    project.events.on("output", onOutput);
+    project.events.on("closed", onClosed);
+  });
+}
+
+export async function waitForOutput(
+  runningProjects: Map<string, ProjectRun>,
+  {
+    runId,
+    pattern,
+    stream = "both",
+    timeoutMs = 30000,
+    sinceOffset
+  }: {
+    runId: string;
+    pattern: string;
+    stream?: LogStream | "both" | undefined;
+    timeoutMs?: number | undefined;
+    sinceOffset?: number | undefined;
+  }
+) {
+  const project = runningProjects.get(runId);
+
+  if (!project) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `No project found with run ID: ${runId}`
+      }]
+    };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Invalid pattern: ${error instanceof Error ? error.message : error}`
+      }]
+    };
+  }
+
+  const streams: LogStream[] = stream === "both" ? ["stdout", "stderr"] : [stream];
+  const scanners = new Map(streams.map(s => [s, new LineScanner(s, regex)] as const));
+
+  // Scan output already captured so a line printed before this call still counts
+  let result: WaitResult | null = null;
+  for (const s of streams) {
+    const existing = project[s].read(sinceOffset);
+    result = scanners.get(s)!.push(existing.text, existing.fromOffset);
+    if (result) {
+      break;
+    }
+  }
+
+  // Output can still be on its way after the process exits, until the run is closed
+  if (!result && project.outputClosed) {
+    result = [...scanners.values()].map(scanner => scanner.flush()).find(match => match) ?? { kind: "exited" };
+  }
+
+  if (!result) {
+    result = await waitForMatch(project, scanners, timeoutMs);
+  }
+
+  let text: string;
+  switch (result.kind) {
+    case "matched":
+      text = `Matched on ${result.stream} at offset ${result.offset}:\n${result.line}`;
+      break;
+    case "exited":
+      text = `Run ${runId} exited${project.exitCode !== undefined ? ` with code ${project.exitCode}` : ""} before /${pattern}/ appeared`;
+      break;
+    case "timeout":
+      text = `Timed out after ${timeoutMs}ms waiting for /${pattern}/`;
+      break;
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text
+    }]
+  };
+}
@@ -5,6 +5,13 @@ import { z } from "zod";
 import "./config.js"; // Validate configuration on startup
 import { runProject } from "./handlers/tools/run-project.js";
 import { stopProject } from "./handlers/tools/stop-project.js";
+import { restartProject } from "./handlers/tools/restart-project.js";
+import { runSession, stopSession } from "./handlers/tools/run-session.js";
+import { listRuns } from "./handlers/tools/list-runs.js";
+import { attachToGame } from "./handlers/tools/attach-to-game.js";
+import { getDiagnostics } from "./handlers/tools/get-diagnostics.js";
+import { readRunOutput } from "./handlers/tools/read-run-output.js";
+import { waitForOutput } from "./handlers/tools/wait-for-output.js";
 import { searchScenes } from "./handlers/tools/search-scenes.js";
 import { captureScreenshot } from "./handlers/tools/screenshot.js";
 import { getSceneTree } from "./handlers/tools/get-scene-tree.js";
@@ -12,31 +19,88 @@ import { getNode } from "./handlers/tools/get-node.js";
 import { setProperty } from "./handlers/tools/set-property.js";
 import { callMethod } from "./handlers/tools/call-method.js";
 import { changeScene } from "./handlers/tools/change-scene.js";
+import { runBatch } from "./handlers/tools/batch.js";
 import { sendInputAction, sendInputKey, sendInputMouseButton, sendInputMouseMotion } from "./handlers/tools/send-input.js";
 import { searchGodotDocs } from "./handlers/tools/search-docs.js";
 import { getGodotClass } from "./handlers/tools/get-class.js";
 import * as sceneResources from "./handlers/resources/scenes.js";
 import * as godotResources from "./handlers/resources/godot-resources.js";
 import * as runResources from "./handlers/resources/runs.js";
-import { type ProjectRun } from "./types.js";
+import * as profileResources from "./handlers/resources/profiles.js";
+import * as sessionResources from "./handlers/resources/sessions.js";
+import { pruneRunHistory, recoverInterruptedRuns } from "./runs/history.js";
+import { attachRunSessions } from "./runs/lifecycle.js";
+import { MAX_DURATION_SECONDS } from "./runs/profiles.js";
+import { attachNotificationServer } from "./runs/notifications.js";
+import { attachToolAvailability, gateTool } from "./runs/tool-availability.js";
+import { stopAllRuns, stopRunNow } from "./runs/shutdown.js";
+import { type ProjectRun, type RunSession } from "./types.js";
+import { attachLoggingServer, createLogger } from "./utils/logger.js";
 
 const server = new McpServer({
   name: "mcp-server-godot",
   version: "0.1.0",
+}, {
+  capabilities: { logging: {} }
 });
 
-// Storage for running projects (tied to MCP server lifetime)
+// Send diagnostics as MCP log notifications, since stdout carries the protocol
+attachLoggingServer(server);
+
+// Let clients subscribe to run output and status instead of polling
+attachNotificationServer(server);
+
+// Storage for live project runs (tied to MCP server lifetime)
+// Finished runs are also archived on disk, see runs/history.ts
 const runningProjects = new Map<string, ProjectRun>();
 
+// List bridge tools only while a running game's addon supports them
+attachToolAvailability(runningProjects);
+
+// Groups of runs launched together by run_session
+const runSessions = new Map<string, RunSession>();
+attachRunSessions(runSessions);
+
+// Tidy up history left behind by previous server sessions
+try {
+  recoverInterruptedRuns(new Set());
+  pruneRunHistory(new Set());
+} catch (error) {
+  createLogger("runs").warning("Failed to prune run history", error);
+}
+
+// How Godot values are written in set_property and call_method (see VariantValue in bridge/types.ts)
+const VARIANT_ENCODING = "Plain JSON for null, bools, numbers, strings, arrays and dictionaries; other types as " +
+  "tagged objects, e.g. {\"$type\":\"Vector2\",\"x\":1,\"y\":2}, {\"$type\":\"Color\",\"r\":1,\"g\":0,\"b\":0,\"a\":1}, " +
+  "{\"$type\":\"NodePath\",\"value\":\"../Player\"}, {\"$type\":\"Resource\",\"path\":\"res://icon.svg\"} or " +
+  "{\"$type\":\"Object\",\"id\":\"<instance id>\"}. get_node returns values in the same form.";
+
+// Launch parameters shared by run_project and run_session templates
+const runRequestSchema = {
+  projectPath: z.string().optional().describe("Path to the Godot project (defaults to command line argument)"),
+  args: z.array(z.string()).optional().describe("Optional arguments to pass to Godot on startup"),
+  userArgs: z.array(z.string()).optional().describe("Arguments for the game itself, passed after -- and readable via OS.get_cmdline_user_args()"),
+  env: z.record(z.string(), z.string()).optional().describe("Environment variables to set for the game, on top of the server's environment and the profile's"),
+  maxDurationSeconds: z.number().int().positive().max(MAX_DURATION_SECONDS).optional().describe("Stop the run after this many seconds, so a forgotten game doesn't keep running"),
+  cwd: z.string().optional().describe("Working directory for the game, relative to the project path (defaults to the server's working directory)"),
+  profile: z.string().optional().describe("Launch profile from .mcp-godot.json or the [mcp] section of project.godot (see godot://project/profiles). Other options override the profile's"),
+  remoteDebug: z.boolean().default(true).describe("Attach Godot's built-in remote debugger for errors, scene tree and object inspection without the MCP Bridge addon"),
+  headless: z.boolean().optional().describe("Run without a window, GPU or audio (--headless), e.g. on CI"),
+  scene: z.string().optional().describe("Scene to start instead of the main scene (e.g., 'res://levels/test.tscn')"),
+  resolution: z.string().regex(/^\d+x\d+$/).optional().describe("Window resolution as WIDTHxHEIGHT (e.g., '1280x720')"),
+  windowMode: z.enum(["windowed", "maximized", "fullscreen"]).optional().describe("Window mode"),
+  fixedFps: z.number().int().positive().optional().describe("Force a fixed number of frames per second, useful for deterministic runs"),
+  renderingDriver: z.string().optional().describe("Rendering driver (e.g., 'vulkan', 'opengl3', 'dummy')"),
+  audioDriver: z.string().optional().describe("Audio driver (e.g., 'PulseAudio', 'ALSA', 'Dummy')"),
+  verbose: z.boolean().optional().describe("Enable verbose engine output")
+};
+
 // Register tools
 server.registerTool("run_project",
   {
     title: "Run Godot Project",
     description: "Start a Godot project and return a run ID for managing it",
-    inputSchema: {
-      projectPath: z.string().optional().describe("Path to the Godot project (defaults to command line argument)"),
-      args: z.array(z.string()).optional().describe("Optional arguments to pass to Godot on startup")
-    }
+    inputSchema: runRequestSchema
   },
   async (params) => runProject(runningProjects, params)
 );
@@ -44,7 +108,7 @@ server.registerTool("run_project",
 server.registerTool("stop_project",
   {
     title: "Stop Godot Project",
-    description: "Stop a running Godot project by its run ID",
+    description: "Stop a running Godot project by its run ID. Asks the game to quit via the MCP Bridge addon first, then escalates to SIGTERM and SIGKILL.",
     inputSchema: {
       runId: z.string().describe("The run ID of the project to stop")
     }
@@ -52,6 +116,116 @@ server.registerTool("stop_project",
   async (params) => stopProject(runningProjects, params)
 );
 
+server.registerTool("restart_project",
+  {
+    title: "Restart Godot Project",
+    description: "Stop a run and launch it again with the same parameters, keeping its run ID. The previous generation's output stays available as run <runId>@<generation>. Waits for the MCP Bridge addon to reconnect.",
+    inputSchema: {
+      runId: z.string().describe("The run ID of the project to restart")
+    }
+  },
+  async (params) => restartProject(runningProjects, params)
+);
+
+server.registerTool("run_session",
+  {
+    title: "Run Godot Session",
+    description: "Launch a group of instances from a shared template, e.g. one server and several clients for multiplayer testing. Each instance gets a role label; '{index}' in args, userArgs and env values, of the template and the instance, is replaced by its index within the role.",
+    inputSchema: {
+      template: z.object(runRequestSchema).optional().describe("Launch parameters shared by all instances, as for run_project"),
+      instances: z.array(z.object({
+        role: z.string().describe("Role label (e.g., 'server', 'client')"),
+        count: z.number().int().positive().default(1).describe("Number of instances with this role"),
+        args: z.array(z.string()).optional().describe("Godot arguments appended to the template's"),
+        userArgs: z.array(z.string()).optional().describe("Game arguments appended to the template's (e.g., ['--client', '--port=700{index}'])"),
+        env: z.record(z.string(), z.string()).optional().describe("Environment variables merged over the template's")
+      })).min(1).describe("Instances to launch, in start order"),
+      ordered: z.boolean().default(true).describe("Start each instance only after the previous one's MCP Bridge connects")
+    }
+  },
+  async (params) => runSession(runningProjects, runSessions, params)
+);
+
+server.registerTool("stop_session",
+  {
+    title: "Stop Godot Session",
+    description: "Stop every instance of a session started with run_session, in reverse start order",
+    inputSchema: {
+      sessionId: z.string().describe("The session ID returned by run_session")
+    }
+  },
+  async (params) => stopSession(runningProjects, runSessions, params)
+);
+
+server.registerTool("attach_to_game",
+  {
+    title: "Attach to Running Game",
+    description: "Connect to a game started outside this server (from the editor, an exported debug build or another machine) whose MCP Bridge addon listens on TCP, and register it as a run. Bridge tools then work with its run ID. The game's printed output stays in its own console and is not captured in the run's stdout or stderr.",
+    inputSchema: {
+      port: z.number().int().min(1).max(65535).describe("Port the addon listens on (--mcp-bridge-port or the mcp_bridge/network/port project setting)"),
+      host: z.string().default("127.0.0.1").describe("Host the game runs on"),
+      projectPath: z.string().optional().describe("Path to the game's Godot project, used to group its run history (defaults to command line argument)"),
+      timeoutMs: z.number().int().positive().default(5000).describe("How long to wait for the connection and handshake")
+    }
+  },
+  async (params) => attachToGame(runningProjects, params)
+);
+
+server.registerTool("list_runs",
+  {
+    title: "List Runs",
+    description: "List the project runs of this session with their uptime, remaining time budget and bridge state",
+    inputSchema: {
+      includeExited: z.boolean().default(true).describe("Include runs that have exited but are still held in memory")
+    }
+  },
+  async (params) => listRuns(runningProjects, params)
+);
+
+server.registerTool("read_run_output",
+  {
+    title: "Read Run Output",
+    description: "Read a run's stdout or stderr incrementally. Pass the returned offset as sinceOffset to poll only new output.",
+    inputSchema: {
+      runId: z.string().describe("The run ID of the project (live or archived)"),
+      stream: z.enum(["stdout", "stderr"]).default("stdout").describe("Which output stream to read"),
+      sinceOffset: z.number().int().min(0).optional().describe("Byte offset to start reading from (from a previous call)"),
+      tail: z.number().int().positive().optional().describe("Only return the last N lines"),
+      grep: z.string().optional().describe("Only return lines matching this regular expression"),
+      maxBytes: z.number().int().positive().default(65536).describe("Maximum number of bytes of output to return")
+    }
+  },
+  async (params) => readRunOutput(runningProjects, params)
+);
+
+server.registerTool("wait_for_output",
+  {
+    title: "Wait for Output",
+    description: "Block until a line matching a regular expression appears in a run's output, the run exits, or the timeout elapses. Output printed before the call also counts.",
+    inputSchema: {
+      runId: z.string().describe("The run ID of the project"),
+      pattern: z.string().describe("Regular expression to match against each output line (e.g., 'Initialized and ready')"),
+      stream: z.enum(["stdout", "stderr", "both"]).default("both").describe("Which output stream(s) to watch"),
+      timeoutMs: z.number().int().positive().max(600000).default(30000).describe("Maximum time to wait in milliseconds"),
+      sinceOffset: z.number().int().min(0).optional().describe("Ignore output before this byte offset (from read_run_output or a previous wait)")
+    }
+  },
+  async (params) => waitForOutput(runningProjects, params)
+);
+
+server.registerTool("get_diagnostics",
+  {
+    title: "Get Run Diagnostics",
+    description: "Summarize Godot errors and warnings from a run's output, with duplicates removed and script file/line locations",
+    inputSchema: {
+      runId: z.string().describe("The run ID of the project (live or archived)"),
+      severity: z.enum(["error", "warning"]).optional().describe("Only include diagnostics of this severity"),
+      limit: z.number().default(50).describe("Maximum number of unique diagnostics to return")
+    }
+  },
+  async (params) => getDiagnostics(runningProjects, params)
+);
+
 server.registerTool("search_scenes",
   {
     title: "Search Scenes",
@@ -68,7 +242,7 @@ server.registerTool("search_scenes",
   searchScenes
 );
 
-server.registerTool("capture_screenshot",
+gateTool(server.registerTool("capture_screenshot",
   {
     title: "Capture Screenshot",
     description: "Capture a screenshot of the Godot game viewport. Requires the MCP Bridge addon to be installed in the project.",
@@ -79,47 +253,47 @@ server.registerTool("capture_screenshot",
     }
   },
   async (params) => captureScreenshot(runningProjects, params)
-);
+), "screenshot");
 
-// Bridge-dependent tools (require MCP Bridge addon)
-server.registerTool("get_scene_tree",
+// Live inspection tools (MCP Bridge addon, with remote debugger fallback where possible)
+gateTool(server.registerTool("get_scene_tree",
   {
     title: "Get Scene Tree",
-    description: "Get the live scene tree hierarchy from a running Godot project. Requires the MCP Bridge addon.",
+    description: "Get the live scene tree hierarchy from a running Godot project. Uses the MCP Bridge addon if installed, otherwise the remote debugger.",
     inputSchema: {
       runId: z.string().describe("The run ID of the project")
     }
   },
   async (params) => getSceneTree(runningProjects, params)
-);
+), "nodes", { debuggerFallback: true });
 
-server.registerTool("get_node",
+gateTool(server.registerTool("get_node",
   {
     title: "Get Node",
-    description: "Get information about a specific node in a running Godot project. Requires the MCP Bridge addon.",
+    description: "Get information about a specific node in a running Godot project. Uses the MCP Bridge addon if installed, otherwise the remote debugger.",
     inputSchema: {
       runId: z.string().describe("The run ID of the project"),
       nodePath: z.string().describe("Path to the node (e.g., '/root/Main/Player' or 'Player/Sprite2D')")
     }
   },
   async (params) => getNode(runningProjects, params)
-);
+), "nodes", { debuggerFallback: true });
 
-server.registerTool("set_property",
+gateTool(server.registerTool("set_property",
   {
     title: "Set Property",
-    description: "Set a property on a node in a running Godot project. Requires the MCP Bridge addon.",
+    description: "Set a property on a node in a running Godot project. Uses the MCP Bridge addon if installed, otherwise the remote debugger.",
     inputSchema: {
       runId: z.string().describe("The run ID of the project"),
       nodePath: z.string().describe("Path to the node"),
       property: z.string().describe("Name of the property to set"),
-      value: z.any().describe("Value to set the property to")
+      value: z.any().describe(`Value to set the property to. ${VARIANT_ENCODING}`)
     }
   },
   async (params) => setProperty(runningProjects, params)
-);
+), "nodes", { debuggerFallback: true });
 
-server.registerTool("call_method",
+gateTool(server.registerTool("call_method",
   {
     title: "Call Method",
     description: "Call a method on a node in a running Godot project. Requires the MCP Bridge addon.",
@@ -127,13 +301,13 @@ server.registerTool("call_method",
       runId: z.string().describe("The run ID of the project"),
       nodePath: z.string().describe("Path to the node"),
       method: z.string().describe("Name of the method to call"),
-      args: z.array(z.any()).optional().describe("Arguments to pass to the method")
+      args: z.array(z.any()).optional().describe(`Arguments to pass to the method. ${VARIANT_ENCODING}`)
     }
   },
   async (params) => callMethod(runningProjects, params)
-);
+), "nodes");
 
-server.registerTool("change_scene",
+gateTool(server.registerTool("change_scene",
   {
     title: "Change Scene",
     description: "Change the current scene in a running Godot project. Requires the MCP Bridge addon.",
@@ -143,9 +317,9 @@ server.registerTool("change_scene",
     }
   },
   async (params) => changeScene(runningProjects, params)
-);
+), "scene");
 
-server.registerTool("send_input_action",
+gateTool(server.registerTool("send_input_action",
   {
     title: "Send Input Action",
     description: "Trigger an input action in a running Godot project. Requires the MCP Bridge addon.",
@@ -157,9 +331,9 @@ server.registerTool("send_input_action",
     }
   },
   async (params) => sendInputAction(runningProjects, params)
-);
+), "input");
 
-server.registerTool("send_input_key",
+gateTool(server.registerTool("send_input_key",
   {
     title: "Send Key Input",
     description: "Simulate a key press/release in a running Godot project. Requires the MCP Bridge addon.",
@@ -174,9 +348,9 @@ server.registerTool("send_input_key",
     }
   },
   async (params) => sendInputKey(runningProjects, params)
-);
+), "input");
 
-server.registerTool("send_input_mouse_button",
+gateTool(server.registerTool("send_input_mouse_button",
   {
     title: "Send Mouse Button Input",
     description: "Simulate a mouse button press/release in a running Godot project. Requires the MCP Bridge addon.",
@@ -189,9 +363,9 @@ server.registerTool("send_input_mouse_button",
     }
   },
   async (params) => sendInputMouseButton(runningProjects, params)
-);
+), "input");
 
-server.registerTool("send_input_mouse_motion",
+gateTool(server.registerTool("send_input_mouse_motion",
   {
     title: "Send Mouse Motion Input",
     description: "Simulate mouse movement in a running Godot project. Requires the MCP Bridge addon.",
@@ -204,13 +378,77 @@ server.registerTool("send_input_mouse_motion",
     }
   },
   async (params) => sendInputMouseMotion(runningProjects, params)
-);
+), "input");
+
+gateTool(server.registerTool("batch",
+  {
+    title: "Batch Operations",
+    description: "Run several node, input and screenshot operations in a running Godot project within a single frame, so the game doesn't tick between them. Screenshots are taken after that frame is drawn. Returns a result per operation. Requires the MCP Bridge addon.",
+    inputSchema: {
+      runId: z.string().describe("The run ID of the project"),
+      operations: z.array(z.discriminatedUnion("op", [
+        z.object({
+          op: z.literal("get"),
+          nodePath: z.string().describe("Path to the node"),
+          property: z.string().optional().describe("Return just this property's value instead of the node")
+        }),
+        z.object({
+          op: z.literal("set"),
+          nodePath: z.string().describe("Path to the node"),
+          property: z.string().describe("Name of the property to set"),
+          value: z.any().describe(`Value to set the property to. ${VARIANT_ENCODING}`)
+        }),
+        z.object({
+          op: z.literal("call"),
+          nodePath: z.string().describe("Path to the node"),
+          method: z.string().describe("Name of the method to call"),
+          args: z.array(z.any()).optional().describe("Arguments to pass to the method, encoded as for set")
+        }),
+        z.object({
+          op: z.literal("input_action"),
+          action: z.string().describe("Name of the input action"),
+          pressed: z.boolean().optional().describe("Whether the action is pressed (default) or released"),
+          strength: z.number().optional().describe("Strength of the action (0.0 to 1.0)")
+        }),
+        z.object({
+          op: z.literal("input_key"),
+          keycode: z.number().describe("Godot keycode"),
+          pressed: z.boolean().optional().describe("Whether the key is pressed (default) or released"),
+          shift: z.boolean().optional(),
+          ctrl: z.boolean().optional(),
+          alt: z.boolean().optional(),
+          meta: z.boolean().optional()
+        }),
+        z.object({
+          op: z.literal("input_mouse_button"),
+          button: z.number().describe("Mouse button (1 = left, 2 = right, 3 = middle)"),
+          pressed: z.boolean().optional().describe("Whether the button is pressed (default) or released"),
+          x: z.number(),
+          y: z.number()
+        }),
+        z.object({
+          op: z.literal("input_mouse_motion"),
+          relativeX: z.number(),
+          relativeY: z.number(),
+          x: z.number().optional(),
+          y: z.number().optional()
+        }),
+        z.object({
+          op: z.literal("screenshot"),
+          format: z.enum(["png", "jpeg"]).optional().describe("Image format (default png)")
+        })
+      ])).min(1).describe("Operations to run in order, with the same fields as the individual tools"),
+      stopOnError: z.boolean().default(false).describe("Skip the remaining operations after the first one that fails")
+    }
+  },
+  async (params) => runBatch(runningProjects, params)
+), "batch");
 
 // Documentation search tools
 server.registerTool("search_godot_docs",
   {
     title: "Search Godot Documentation",
-    description: "Search the Godot engine documentation for classes, methods, properties, signals, and constants. On first use, downloads docs matching your Godot version.",
+    description: "Search the Godot engine documentation for classes, methods, properties, signals, and constants. On first use, fetches docs matching your Godot version (from GitHub, `godot --doctool`, or a local directory, per GODOT_DOCS_SOURCE).",
     inputSchema: {
       query: z.string().describe("Search query (class name, method name, or keyword)"),
       limit: z.number().default(10).describe("Maximum number of results to return")
@@ -273,6 +511,16 @@ server.registerResource("scene_node_detail", new ResourceTemplate("godot://proje
   sceneResources.sceneNodeDetail
 );
 
+// Register launch profiles
+server.registerResource("project_profiles", "godot://project/profiles",
+  {
+    title: "Launch Profiles",
+    description: "Named run_project launch profiles defined in .mcp-godot.json or the [mcp] section of project.godot",
+    mimeType: "application/json"
+  },
+  profileResources.profilesList
+);
+
 // Register Godot resource files
 server.registerResource("resources_list", "godot://project/resources/",
   {
@@ -339,8 +587,8 @@ server.registerResource("resources_property_by_type", new ResourceTemplate("godo
 // Register run management resources
 server.registerResource("runs_list", "godot://runs/",
   {
-    title: "Running Projects",
-    description: "List all currently running Godot projects",
+    title: "Project Runs",
+    description: "List live Godot project runs and archived runs from previous sessions",
     mimeType: "application/json"
   },
   async (uri) => runResources.runsList(uri, runningProjects)
@@ -379,23 +627,97 @@ server.registerResource("project_status", new ResourceTemplate("godot://runs/{ru
   async (uri, params) => runResources.projectStatus(uri, params, runningProjects)
 );
 
+server.registerResource("project_errors", new ResourceTemplate("godot://runs/{runId}/errors", {
+  list: runResources.projectErrorsList(runningProjects)
+}),
+  {
+    title: "Project Errors",
+    description: "Get errors and warnings with stack traces reported through the remote debugger",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectErrors(uri, params, runningProjects)
+);
+
+server.registerResource("project_diagnostics", new ResourceTemplate("godot://runs/{runId}/diagnostics", {
+  list: runResources.projectDiagnosticsList(runningProjects)
+}),
+  {
+    title: "Project Diagnostics",
+    description: "Get structured errors and warnings parsed from a run's output, with severity, file, line, function and stack",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectDiagnostics(uri, params, runningProjects)
+);
+
+server.registerResource("project_crash", new ResourceTemplate("godot://runs/{runId}/crash", {
+  list: runResources.projectCrashList(runningProjects)
+}),
+  {
+    title: "Project Crash Report",
+    description: "Crash report for a run: exit signal, engine version, parsed native and GDScript backtrace frames and the last log lines",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectCrash(uri, params, runningProjects)
+);
+
+server.registerResource("project_metrics", new ResourceTemplate("godot://runs/{runId}/metrics", {
+  list: runResources.projectMetricsList(runningProjects)
+}),
+  {
+    title: "Project Resource Usage",
+    description: "CPU, memory (RSS), thread and open file descriptor samples of a running game, with min, max and trend per metric (Linux only)",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectMetrics(uri, params, runningProjects)
+);
+
+server.registerResource("session", new ResourceTemplate("godot://sessions/{sessionId}", {
+  list: sessionResources.sessionList(runSessions)
+}),
+  {
+    title: "Run Session",
+    description: "Status of each instance in a session started with run_session: role, run ID, status and bridge state",
+    mimeType: "application/json"
+  },
+  async (uri, params) => sessionResources.session(uri, params, runningProjects, runSessions)
+);
+
+server.registerResource("project_events", new ResourceTemplate("godot://runs/{runId}/events", {
+  list: runResources.projectEventsList(runningProjects)
+}),
+  {
+    title: "Project Events",
+    description: "Events from a running game with timestamp and frame number: scene changes, nodes added or removed, script errors and custom events. Filter with ?type=a,b and read only newer events with ?since=<nextCursor>",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectEvents(uri, params, runningProjects)
+);
+
+// Same resource with a query string, which URI templates can only match as a whole
+server.registerResource("project_events_query", new ResourceTemplate("godot://runs/{runId}/events?{+query}", {
+  list: undefined
+}),
+  {
+    title: "Project Events (filtered)",
+    description: "Events from a running game, filtered by ?type=a,b, since=<cursor> and limit=<n>",
+    mimeType: "application/json"
+  },
+  async (uri, params) => runResources.projectEvents(uri, params, runningProjects)
+);
+
 // Clean up on process exit
+// 'exit' handlers can't wait, so this only starts the escalation; signals get the full graceful path
 process.on("exit", () => {
   for (const projectRun of runningProjects.values()) {
-    if (projectRun.status === 'running') {
-      projectRun.process.kill();
-    }
+    stopRunNow(projectRun);
   }
 });
 
-process.on("SIGINT", () => {
-  for (const projectRun of runningProjects.values()) {
-    if (projectRun.status === 'running') {
-      projectRun.process.kill();
-    }
-  }
-  process.exit(0);
-});
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    stopAllRuns(runningProjects).finally(() => process.exit(0));
+  });
+}
 
 // Start receiving messages on stdin and sending messages on stdout
 const transport = new StdioServerTransport();
@@ -0,0 +1,224 @@
+/**
+ * Detect engine crashes and build crash reports from a run's exit and output
+ *
+ * Godot's crash handler prints a native backtrace before aborting:
+ *
+ *   ================================================================
+ *   handle_crash: Program crashed with signal 11
+ *   Engine version: Godot Engine v4.3.stable.official (77dcf97d82cbfe4e4615475fa52ca03da645dbd8)
+ *   Dumping the backtrace. Please include this when reporting the bug to the project developer.
+ *   [1] /lib/x86_64-linux-gnu/libc.so.6(+0x42520) [0x7f0e8e242520] (??:0)
+ *   [2] Node::_propagate_ready() (at ./scene/main/node.cpp:269)
+ *   -- END OF BACKTRACE --
+ *   ================================================================
+ *
+ * Newer versions follow it with a GDScript backtrace in the same format as script errors.
+ */
+
+import type { DiagnosticFrame } from "./diagnostics.js";
+
+// Number of trailing log lines kept in a crash report
+const CRASH_LOG_LINES = 50;
+
+// Signals that mean the engine died rather than being asked to stop
+const CRASH_SIGNALS = new Set(["SIGSEGV", "SIGABRT", "SIGBUS", "SIGFPE", "SIGILL", "SIGTRAP", "SIGSYS"]);
+
+const CRASH_HEADER_PATTERN = /^(?:handle_crash|CrashHandlerException): Program crashed(?: with signal (\d+))?/;
+const ENGINE_VERSION_PATTERN = /^Engine version: (.+)$/;
+const BANNER_VERSION_PATTERN = /^(Godot Engine v\S+)/;
+const FRAME_PATTERN = /^\[(\d+)\]\s+(.*)$/;
+const END_PATTERN = /^-- END OF (?:C\+\+ )?BACKTRACE --/;
+const SCRIPT_BACKTRACE_PATTERN = /^GDScript backtrace/;
+const SCRIPT_END_PATTERN = /^-- END OF GDSCRIPT BACKTRACE --/;
+const SCRIPT_FRAME_PATTERN = /^\[\d+\]\s*(.*?)\s*\((.+):(\d+)\)\s*$/;
+
+export interface CrashFrame {
+  index: number;
+  function?: string;
+  file?: string;
+  line?: number;
+  // Binary or library the frame is in, when no symbol information is available
+  module?: string;
+  address?: string;
+  raw: string;
+}
+
+/**
+ * What the crash handler printed
+ */
+export interface CrashOutput {
+  signalNumber?: number;
+  engineVersion?: string;
+  frames: CrashFrame[];
+  scriptFrames: DiagnosticFrame[];
+}
+
+export interface CrashReport {
+  runId: string;
+  crashed: boolean;
+  // Why the run counts as crashed: the exit signal, the crash handler's output, or both
+  detectedFrom: Array<'signal' | 'backtrace'>;
+  exitSignal?: string;
+  exitCode?: number;
+  signalNumber?: number;
+  engineVersion?: string;
+  frames: CrashFrame[];
+  scriptFrames: DiagnosticFrame[];
+  lastLines: {
+    stdout: string[];
+    stderr: string[];
+  };
+}
+
+/**
+ * The exit details and output a crash report is built from, for live or archived runs
+ */
+export interface CrashInput {
+  runId: string;
+  exitSignal?: string | undefined;
+  exitCode?: number | undefined;
+  stopRequested?: boolean | undefined;
+  stdout: string;
+  stderr: string;
+}
+
+function parseFrame(index: number, text: string): CrashFrame {
+  const frame: CrashFrame = { index, raw: text };
+
+  // Linux with debug symbols: "Node::_propagate_ready() (at ./scene/main/node.cpp:269)"
+  // Windows: "Node::_propagate_ready (C:\godot\scene\main\node.cpp:269)"
+  const located = /^(.*)\s+\((?:at )?([^()]+):(\d+)\)$/.exec(text);
+  if (located && located[2] !== "??") {
+    frame.function = located[1]!;
+    frame.file = located[2]!;
+    frame.line = parseInt(located[3]!, 10);
+    return frame;
+  }
+
+  // Without symbols: "/lib/x86_64-linux-gnu/libc.so.6(+0x42520) [0x7f0e8e242520] (??:0)"
+  const unresolved = /^(.+?)\((.*?)\)\s*\[(0x[0-9a-fA-F]+)\]/.exec(text);
+  if (unresolved) {
+    frame.module = unresolved[1]!;
+    if (unresolved[2] && !unresolved[2].startsWith("+")) {
+      frame.function = unresolved[2].replace(/\+0x[0-9a-fA-F]+$/, "");
+    }
+    frame.address = unresolved[3]!;
+    return frame;
+  }
+
+  frame.function = text;
+  return frame;
+}
+
+/**
+ * Find the crash handler's output in a log, or null if the engine didn't crash
+ */
+export function parseCrashOutput(output: string): CrashOutput | null {
+  const lines = output.split(/\r?\n/).map(line => line.trim());
+  const start = lines.findIndex(line => CRASH_HEADER_PATTERN.test(line));
+  if (start === -1) {
+    return null;
+  }
+
+  const header = CRASH_HEADER_PATTERN.exec(lines[start]!)!;
+  const crash: CrashOutput = { frames: [], scriptFrames: [] };
+  if (header[1]) {
+    crash.signalNumber = parseInt(header[1], 10);
+  }
+
+  let section: 'native' | 'script' | 'done' = 'native';
+  for (const line of lines.slice(start + 1)) {
+    const version = ENGINE_VERSION_PATTERN.exec(line);
+    if (version) {
+      crash.engineVersion = version[1]!;
+      continue;
+    }
+
+    if (SCRIPT_BACKTRACE_PATTERN.test(line)) {
+      section = 'script';
+      continue;
+    }
+    if (SCRIPT_END_PATTERN.test(line)) {
+      break;
+    }
+    if (END_PATTERN.test(line)) {
+      section = 'done';
+      continue;
+    }
+
+    if (section === 'native') {
+      const frame = FRAME_PATTERN.exec(line);
+      if (frame) {
+        crash.frames.push(parseFrame(parseInt(frame[1]!, 10), frame[2]!));
+      }
+    } else if (section === 'script') {
+      const frame = SCRIPT_FRAME_PATTERN.exec(line);
+      if (frame) {
+        crash.scriptFrames.push({ function: frame[1]!, file: frame[2]!, line: parseInt(frame[3]!, 10) });
+      }
+    }
+  }
+
+  return crash;
+}
+
+/**
+ * Whether an exit signal means the engine crashed
+ */
+export function isCrashSignal(signal: string | undefined, stopRequested?: boolean): boolean {
+  return !!signal && !stopRequested && CRASH_SIGNALS.has(signal);
+}
+
+/**
+ * Engine version from the banner Godot prints on startup
+ */
+function findBannerVersion(output: string): string | undefined {
+  for (const line of output.split(/\r?\n/, 20)) {
+    const banner = BANNER_VERSION_PATTERN.exec(line.trim());
+    if (banner) {
+      return banner[1]!;
+    }
+  }
+  return undefined;
+}
+
+function lastLines(log: string): string[] {
+  const lines = log.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines.slice(-CRASH_LOG_LINES);
+}
+
+/**
+ * Build the crash report of a run (with crashed: false if it didn't crash)
+ */
+export function buildCrashReport(input: CrashInput): CrashReport {
+  const crash = parseCrashOutput(input.stderr) ?? parseCrashOutput(input.stdout);
+
+  const detectedFrom: CrashReport['detectedFrom'] = [];
+  if (isCrashSignal(input.exitSignal, input.stopRequested)) {
+    detectedFrom.push('signal');
+  }
+  if (crash) {
+    detectedFrom.push('backtrace');
+  }
+
+  const engineVersion = crash?.engineVersion ?? findBannerVersion(input.stdout);
+
+  return {
+    runId: input.runId,
+    crashed: detectedFrom.length > 0,
+    detectedFrom,
+    ...(input.exitSignal && { exitSignal: input.exitSignal }),
+    ...(input.exitCode !== undefined && { exitCode: input.exitCode }),
+    ...(crash?.signalNumber !== undefined && { signalNumber: crash.signalNumber }),
+    ...(engineVersion && { engineVersion }),
+    frames: crash?.frames ?? [],
+    scriptFrames: crash?.scriptFrames ?? [],
+    lastLines: {
+      stdout: lastLines(input.stdout),
+      stderr: lastLines(input.stderr),
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Parse Godot's error and warning output into structured diagnostics
+ *
+ * Handles the formats printed by the engine's error handler:
+ *
+ *   SCRIPT ERROR: Invalid call. Nonexistent function 'foo' in base 'Node2D'.
+ *             at: _ready (res://main.gd:10)
+ *             GDScript backtrace (most recent call first):
+ *                 [0] _ready (res://main.gd:10)
+ *
+ * along with ERROR:, WARNING:, USER ERROR:, USER WARNING: and SHADER ERROR: variants.
+ */
+
+export type DiagnosticSeverity = "error" | "warning";
+export type DiagnosticSource = "engine" | "script" | "shader" | "user";
+
+export interface DiagnosticFrame {
+  function: string;
+  file: string;
+  line: number;
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  source: DiagnosticSource;
+  message: string;
+  file?: string;
+  line?: number;
+  function?: string;
+  stack: DiagnosticFrame[];
+}
+
+/**
+ * A diagnostic with duplicates collapsed into a count
+ */
+export interface DiagnosticSummary extends Diagnostic {
+  count: number;
+}
+
+const HEADER_PATTERN = /^(USER )?(SCRIPT |SHADER )?(ERROR|WARNING): (.*)$/;
+const AT_PATTERN = /^at:\s*(.*?)\s*\((.+):(\d+)\)\s*$/;
+const BACKTRACE_HEADER_PATTERN = /^GDScript backtrace/;
+const FRAME_PATTERN = /^\[\d+\]\s*(.*?)\s*\((.+):(\d+)\)\s*$/;
+
+function parseHeader(line: string): Diagnostic | null {
+  const match = HEADER_PATTERN.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const [, user, kind, level, message] = match;
+  let source: DiagnosticSource = "engine";
+  if (user) {
+    source = "user";
+  } else if (kind === "SCRIPT ") {
+    source = "script";
+  } else if (kind === "SHADER ") {
+    source = "shader";
+  }
+
+  return {
+    severity: level === "ERROR" ? "error" : "warning",
+    source,
+    message: (message ?? "").trim(),
+    stack: [],
+  };
+}
+
+/**
+ * Parse all diagnostics from a chunk of Godot output
+ */
+export function parseDiagnostics(output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let current: Diagnostic | null = null;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    const header = parseHeader(line);
+    if (header) {
+      current = header;
+      diagnostics.push(current);
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const at = AT_PATTERN.exec(line);
+    if (at && current.file === undefined) {
+      current.function = at[1] ?? "";
+      current.file = at[2] ?? "";
+      current.line = parseInt(at[3] ?? "0", 10);
+      continue;
+    }
+
+    if (BACKTRACE_HEADER_PATTERN.test(line)) {
+      continue;
+    }
+
+    const frame = FRAME_PATTERN.exec(line);
+    if (frame) {
+      current.stack.push({
+        function: frame[1] ?? "",
+        file: frame[2] ?? "",
+        line: parseInt(frame[3] ?? "0", 10),
+      });
+      continue;
+    }
+
+    // Any other line ends the current diagnostic's context
+    current = null;
+  }
+
+  for (const diagnostic of diagnostics) {
+    preferScriptLocation(diagnostic);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Point a diagnostic at the innermost script frame when the "at:" line names engine
+ * internals (as it does for push_error/push_warning), so callers land on the script line
+ */
+function preferScriptLocation(diagnostic: Diagnostic): void {
+  if (diagnostic.file?.startsWith("res://")) {
+    return;
+  }
+
+  const frame = diagnostic.stack.find(f => f.file.startsWith("res://"));
+  if (frame) {
+    diagnostic.file = frame.file;
+    diagnostic.line = frame.line;
+    diagnostic.function = frame.function;
+  }
+}
+
+/**
+ * Collapse identical diagnostics, keeping first-seen order
+ */
+export function summarizeDiagnostics(diagnostics: Diagnostic[]): DiagnosticSummary[] {
+  const summaries = new Map<string, DiagnosticSummary>();
+
+  for (const diagnostic of diagnostics) {
+    const key = [diagnostic.severity, diagnostic.message, diagnostic.file, diagnostic.line].join("\0");
+    const existing = summaries.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      summaries.set(key, { ...diagnostic, count: 1 });
+    }
+  }
+
+  return Array.from(summaries.values());
+}
+
+/**
+ * Format a diagnostic location as "file:line in function"
+ */
+export function formatLocation(diagnostic: Diagnostic): string {
+  if (!diagnostic.file) {
+    return "";
+  }
+  const location = diagnostic.line !== undefined ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file;
+  return diagnostic.function ? `${location} in ${diagnostic.function}` : location;
+}
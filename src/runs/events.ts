@@ -0,0 +1,95 @@
+/**
+ * Per-run log of game events: scene changes, nodes added or removed and custom
+ * events sent by the MCP Bridge addon, plus script errors from the remote debugger
+ *
+ * Each event gets a sequence number; clients pass the last one they saw as the
+ * `since` cursor to read only newer events.
+ */
+
+import type { BridgeClient } from "../bridge/bridge-client.js";
+import type { BridgeMessage } from "../bridge/types.js";
+
+// Events kept per run; the oldest are discarded first
+const MAX_EVENTS = 5000;
+
+const DEFAULT_READ_LIMIT = 500;
+
+export interface GameEvent {
+  seq: number;
+  timestamp: string;
+  // Engine process frame the event happened on, when the addon reported it
+  frame?: number;
+  type: string;
+  source: "bridge" | "debugger";
+  data?: unknown;
+}
+
+export interface EventRead {
+  events: GameEvent[];
+  // Pass as `since` to continue after the last returned event
+  nextCursor: number;
+  // Events after the cursor (of any type) that were discarded before they could be read
+  droppedEvents: number;
+}
+
+/**
+ * Event payload sent by the addon with MCPProtocol.create_event
+ */
+interface BridgeEventPayload {
+  frame?: number;
+  data?: unknown;
+}
+
+export class EventLog {
+  private entries: GameEvent[] = [];
+  private nextSeq = 1;
+
+  append(type: string, source: GameEvent["source"], data?: unknown, frame?: number): GameEvent {
+    const event: GameEvent = {
+      seq: this.nextSeq++,
+      timestamp: new Date().toISOString(),
+      ...(frame !== undefined && { frame }),
+      type,
+      source,
+      ...(data !== undefined && data !== null && { data }),
+    };
+
+    this.entries.push(event);
+    if (this.entries.length > MAX_EVENTS) {
+      this.entries.shift();
+    }
+    return event;
+  }
+
+  /**
+   * Read events after a cursor, optionally only of the given types
+   * The limit is clamped to between 1 and the number of events kept.
+   */
+  read({ types, since = 0, limit = DEFAULT_READ_LIMIT }: {
+    types?: string[] | undefined;
+    since?: number | undefined;
+    limit?: number | undefined;
+  } = {}): EventRead {
+    const oldestSeq = this.entries[0]?.seq ?? this.nextSeq;
+    const events = this.entries
+      .filter(event => event.seq > since && (!types || types.includes(event.type)))
+      .slice(0, Math.min(Math.max(limit, 1), MAX_EVENTS));
+
+    return {
+      events,
+      nextCursor: events[events.length - 1]?.seq ?? Math.max(since, oldestSeq - 1),
+      droppedEvents: Math.max(0, oldestSeq - 1 - since),
+    };
+  }
+}
+
+/**
+ * Record every event the bridge receives from the addon
+ */
+export function recordBridgeEvents(bridge: BridgeClient, log: EventLog, onEvent?: () => void): void {
+  bridge.on("event", (msg: BridgeMessage) => {
+    const payload = (msg.payload ?? {}) as BridgeEventPayload;
+    log.append(msg.command, "bridge", payload.data, typeof payload.frame === "number" ? payload.frame : undefined);
+    onEvent?.();
+  });
+}
@@ -0,0 +1,346 @@
+/**
+ * Persistent run history: metadata and full logs archived per project on disk
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import envPaths from "env-paths";
+import { runHistoryMaxAgeDays, runHistoryMaxRuns } from "../config.js";
+import type { AttachedGame, ExitReason, ProjectRun, StopMethod } from "../types.js";
+import type { LaunchConfig, RunRequest } from "./launch.js";
+import { hashProjectPath } from "../utils/files.js";
+import { createLogger } from "../utils/logger.js";
+
+const logger = createLogger("runs");
+
+const paths = envPaths('mcp-server-godot', { suffix: '' });
+
+const METADATA_FILE = "run.json";
+
+// Run IDs are UUIDs, with @<generation> for earlier generations of a restarted run
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(@\d+)?$/i;
+
+export type LogStream = "stdout" | "stderr";
+
+/**
+ * Launch configuration as archived and shown in resources, with only the names of environment
+ * variables since their values may be secrets
+ */
+export interface ArchivedLaunch extends Omit<LaunchConfig, 'request' | 'env'> {
+  request: Omit<RunRequest, 'env'> & { env?: string[] };
+  env?: string[];
+}
+
+/**
+ * Run metadata as stored on disk
+ */
+export interface RunRecord {
+  id: string;
+  projectPath: string;
+  status: 'running' | 'exited';
+  startTime: string;
+  endTime?: string;
+  exitCode?: number;
+  exitSignal?: string;
+  exitReason?: ExitReason;
+  stopMethod?: StopMethod;
+  args?: string[];
+  generation?: number;
+  previousRunIds?: string[];
+  attached?: AttachedGame;
+  launch?: ArchivedLaunch;
+  // PID of the server that owns the run, so other server instances leave it alone
+  serverPid?: number;
+}
+
+function getHistoryRoot(): string {
+  return path.join(paths.data, 'runs');
+}
+
+function getProjectHistoryDir(projectPath: string): string {
+  return path.join(getHistoryRoot(), hashProjectPath(projectPath));
+}
+
+/**
+ * Launch configuration with environment variable values left out, for anything
+ * shown or stored outside the server
+ */
+export function redactLaunch({ request: { env: requestEnv, ...request }, env, ...launch }: LaunchConfig): ArchivedLaunch {
+  return {
+    ...launch,
+    request: { ...request, ...(requestEnv && { env: Object.keys(requestEnv) }) },
+    ...(env && { env: Object.keys(env) }),
+  };
+}
+
+function toRecord(run: ProjectRun): RunRecord {
+  return {
+    id: run.id,
+    projectPath: run.projectPath,
+    status: run.status,
+    startTime: run.startTime.toISOString(),
+    ...(run.endTime && { endTime: run.endTime.toISOString() }),
+    ...(run.exitCode !== undefined && { exitCode: run.exitCode }),
+    ...(run.exitSignal && { exitSignal: run.exitSignal }),
+    ...(run.exitReason && { exitReason: run.exitReason }),
+    ...(run.stopMethod && { stopMethod: run.stopMethod }),
+    ...(run.args && { args: run.args }),
+    generation: run.generation,
+    ...(run.previousRunIds && { previousRunIds: run.previousRunIds }),
+    ...(run.attached && { attached: run.attached }),
+    ...(run.launch && { launch: redactLaunch(run.launch) }),
+    serverPid: process.pid,
+  };
+}
+
+function readRecord(runDir: string): RunRecord | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(runDir, METADATA_FILE), 'utf-8')) as RunRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the archive directory of a run by ID, across all projects
+ */
+function findRunDir(runId: string): string | null {
+  const root = getHistoryRoot();
+  // The ID comes from resource URIs and tool calls, so keep it from naming other paths
+  if (!RUN_ID_PATTERN.test(runId) || !fs.existsSync(root)) {
+    return null;
+  }
+
+  for (const projectDir of fs.readdirSync(root)) {
+    const runDir = path.join(root, projectDir, runId);
+    if (fs.existsSync(path.join(runDir, METADATA_FILE))) {
+      return runDir;
+    }
+  }
+  return null;
+}
+
+/**
+ * On-disk archive for a single run, written as the run progresses
+ */
+export class RunArchive {
+  private dir: string;
+  private logs: Record<LogStream, fs.WriteStream>;
+  private closed = false;
+
+  constructor(run: ProjectRun) {
+    this.dir = path.join(getProjectHistoryDir(run.projectPath), run.id);
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    this.logs = {
+      stdout: fs.createWriteStream(path.join(this.dir, "stdout.log"), { flags: "a" }),
+      stderr: fs.createWriteStream(path.join(this.dir, "stderr.log"), { flags: "a" }),
+    };
+    for (const stream of Object.values(this.logs)) {
+      stream.on("error", (error) => logger.warning(`Failed to write run log in ${this.dir}`, error));
+    }
+
+    this.update(run);
+  }
+
+  /**
+   * Whether the log files have been closed
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Append output to the archived log for a stream
+   */
+  append(stream: LogStream, text: string): void {
+    if (!this.closed) {
+      this.logs[stream].write(text);
+    }
+  }
+
+  /**
+   * Rewrite the run metadata (status, exit code, timestamps)
+   */
+  update(run: ProjectRun): void {
+    try {
+      fs.writeFileSync(path.join(this.dir, METADATA_FILE), JSON.stringify(toRecord(run), null, 2));
+    } catch (error) {
+      logger.warning(`Failed to write run metadata in ${this.dir}`, error);
+    }
+  }
+
+  /**
+   * Move a closed archive to a new run ID, when restart_project retires a generation
+   */
+  moveTo(run: ProjectRun): void {
+    const dir = path.join(path.dirname(this.dir), run.id);
+    fs.renameSync(this.dir, dir);
+    this.dir = dir;
+    this.update(run);
+  }
+
+  /**
+   * Flush and close the log files
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.logs.stdout.end();
+    this.logs.stderr.end();
+  }
+}
+
+/**
+ * List archived runs across all projects, newest first
+ */
+export function listArchivedRuns(): RunRecord[] {
+  const root = getHistoryRoot();
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+
+  const records: RunRecord[] = [];
+  for (const projectDir of fs.readdirSync(root)) {
+    const projectPath = path.join(root, projectDir);
+    for (const runId of fs.readdirSync(projectPath)) {
+      const record = readRecord(path.join(projectPath, runId));
+      if (record) {
+        records.push(record);
+      }
+    }
+  }
+
+  return records.sort((a, b) => b.startTime.localeCompare(a.startTime));
+}
+
+/**
+ * Read the metadata of an archived run
+ */
+export function getArchivedRun(runId: string): RunRecord | null {
+  const runDir = findRunDir(runId);
+  return runDir ? readRecord(runDir) : null;
+}
+
+/**
+ * Read the full archived log of a run
+ */
+export function readArchivedLog(runId: string, stream: LogStream): string | null {
+  const runDir = findRunDir(runId);
+  if (!runDir) {
+    return null;
+  }
+
+  const logPath = path.join(runDir, `${stream}.log`);
+  return fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf-8') : '';
+}
+
+/**
+ * Read a run's log from memory if it is live, otherwise from its archive
+ */
+export function readRunLog(runningProjects: Map<string, ProjectRun>, runId: string, stream: LogStream): string {
+  const projectRun = runningProjects.get(runId);
+  if (projectRun) {
+    return projectRun[stream].toString();
+  }
+
+  const archived = readArchivedLog(runId, stream);
+  if (archived === null) {
+    throw new Error(`No project found with run ID: ${runId}`);
+  }
+  return archived;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a 'running' record belongs to a server that has gone away
+ * (records from before serverPid was stored are always orphaned)
+ */
+function isOrphaned(record: RunRecord): boolean {
+  return record.serverPid === undefined ||
+    (record.serverPid !== process.pid && !isProcessAlive(record.serverPid));
+}
+
+/**
+ * Time of the last write to a run's archive, i.e. roughly when it was last seen
+ */
+function lastArchiveWrite(runDir: string): Date {
+  const mtimes = fs.readdirSync(runDir).map(file => fs.statSync(path.join(runDir, file)).mtimeMs);
+  return mtimes.length > 0 ? new Date(Math.max(...mtimes)) : new Date();
+}
+
+/**
+ * Mark runs left 'running' by a server instance that is no longer alive as exited
+ * Their exit code is unknown, since no server saw the process end
+ */
+export function recoverInterruptedRuns(liveRunIds: Set<string>): void {
+  for (const record of listArchivedRuns()) {
+    if (record.status !== 'running' || liveRunIds.has(record.id) || !isOrphaned(record)) {
+      continue;
+    }
+
+    const runDir = findRunDir(record.id);
+    if (runDir) {
+      const recovered: RunRecord = {
+        ...record,
+        status: 'exited',
+        endTime: lastArchiveWrite(runDir).toISOString(),
+        exitReason: 'interrupted',
+      };
+      fs.writeFileSync(path.join(runDir, METADATA_FILE), JSON.stringify(recovered, null, 2));
+    }
+  }
+}
+
+/**
+ * Delete archived runs beyond the retention policy
+ * Keeps at most GODOT_RUN_HISTORY_MAX_RUNS runs per project, none older than
+ * GODOT_RUN_HISTORY_MAX_AGE_DAYS. Runs that are still live, here or in another
+ * server instance, are never pruned.
+ * Returns the number of runs removed.
+ */
+export function pruneRunHistory(liveRunIds: Set<string>): number {
+  const root = getHistoryRoot();
+  if (!fs.existsSync(root)) {
+    return 0;
+  }
+
+  let pruned = 0;
+  const cutoff = Date.now() - runHistoryMaxAgeDays * 24 * 60 * 60 * 1000;
+
+  for (const projectDir of fs.readdirSync(root)) {
+    const projectHistoryDir = path.join(root, projectDir);
+    const runs = fs.readdirSync(projectHistoryDir)
+      .map(runId => ({ runId, record: readRecord(path.join(projectHistoryDir, runId)) }))
+      .sort((a, b) => (b.record?.startTime ?? '').localeCompare(a.record?.startTime ?? ''));
+
+    runs.forEach(({ runId, record }, index) => {
+      if (liveRunIds.has(runId) || record?.status === 'running') {
+        return;
+      }
+
+      const expired = !record || index >= runHistoryMaxRuns || Date.parse(record.startTime) < cutoff;
+      if (expired) {
+        try {
+          fs.rmSync(path.join(projectHistoryDir, runId), { recursive: true, force: true });
+          pruned++;
+        } catch (error) {
+          logger.warning(`Failed to prune run ${runId}`, error);
+        }
+      }
+    });
+  }
+
+  return pruned;
+}
@@ -0,0 +1,148 @@
+/**
+ * Typed launch options for run_project, translated to Godot command line arguments
+ */
+
+export type WindowMode = 'windowed' | 'maximized' | 'fullscreen';
+
+export interface LaunchOptions {
+  headless?: boolean | undefined;
+  scene?: string | undefined;
+  resolution?: string | undefined;
+  windowMode?: WindowMode | undefined;
+  fixedFps?: number | undefined;
+  renderingDriver?: string | undefined;
+  audioDriver?: string | undefined;
+  verbose?: boolean | undefined;
+}
+
+/**
+ * Parameters of a run_project call, kept so the run can be restarted the same way
+ */
+export interface RunRequest extends LaunchOptions {
+  projectPath?: string | undefined;
+  args?: string[] | undefined;
+  remoteDebug?: boolean | undefined;
+  profile?: string | undefined;
+  env?: Record<string, string> | undefined;
+  cwd?: string | undefined;
+  userArgs?: string[] | undefined;
+  maxDurationSeconds?: number | undefined;
+}
+
+/**
+ * Resolved launch configuration of a run
+ */
+export interface LaunchConfig {
+  request: RunRequest;
+  options: LaunchOptions;
+  // Full argument list passed to the Godot executable
+  godotArgs: string[];
+  // Launch profile the run was started from, see runs/profiles.ts
+  profile?: string;
+  // Environment variables set on top of the server's own
+  env?: Record<string, string>;
+  cwd?: string;
+  // Arguments passed to the game after --
+  userArgs?: string[];
+  maxDurationSeconds?: number;
+}
+
+const WINDOW_MODE_FLAGS: Record<WindowMode, string> = {
+  windowed: "--windowed",
+  maximized: "--maximized",
+  fullscreen: "--fullscreen",
+};
+
+// Raw args that would clash with a typed option
+const CONFLICTING_FLAGS: Record<string, keyof LaunchOptions> = {
+  "--headless": "headless",
+  "--resolution": "resolution",
+  "--windowed": "windowMode",
+  "-w": "windowMode",
+  "--maximized": "windowMode",
+  "-m": "windowMode",
+  "--fullscreen": "windowMode",
+  "-f": "windowMode",
+  "--fixed-fps": "fixedFps",
+  "--rendering-driver": "renderingDriver",
+  "--audio-driver": "audioDriver",
+  "--verbose": "verbose",
+  "-v": "verbose",
+};
+
+/**
+ * Check that the options can be used together (and with any raw args)
+ * Returns a list of problems, empty if the options are valid
+ */
+export function validateLaunchOptions(options: LaunchOptions, args: string[] = []): string[] {
+  const problems: string[] = [];
+
+  if (options.headless) {
+    if (options.windowMode) {
+      problems.push("windowMode cannot be used with headless (there is no window)");
+    }
+    if (options.resolution) {
+      problems.push("resolution cannot be used with headless (there is no window)");
+    }
+    if (options.renderingDriver && options.renderingDriver !== "dummy") {
+      problems.push(`headless always uses the dummy rendering driver, not '${options.renderingDriver}'`);
+    }
+    if (options.audioDriver && options.audioDriver.toLowerCase() !== "dummy") {
+      problems.push(`headless always uses the Dummy audio driver, not '${options.audioDriver}'`);
+    }
+  }
+
+  if (options.resolution && !/^\d+x\d+$/.test(options.resolution)) {
+    problems.push(`resolution must be WIDTHxHEIGHT, e.g. 1280x720 (got '${options.resolution}')`);
+  }
+
+  if (options.scene && !/\.(tscn|scn)$/.test(options.scene)) {
+    problems.push(`scene must be a .tscn or .scn file (got '${options.scene}')`);
+  }
+
+  for (const arg of args) {
+    if (arg === "--" || arg === "++") {
+      problems.push(`args must not contain ${arg}; pass game arguments in userArgs instead`);
+      continue;
+    }
+    const option = CONFLICTING_FLAGS[arg];
+    if (option && options[option] !== undefined) {
+      problems.push(`args contains ${arg}, which conflicts with the ${option} option`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Translate launch options to Godot command line flags
+ * The scene is not included: Godot treats it as a positional argument, so the
+ * caller passes it after all other flags
+ */
+export function launchOptionsToArgs(options: LaunchOptions): string[] {
+  const args: string[] = [];
+
+  if (options.headless) {
+    args.push("--headless");
+  }
+  if (options.windowMode) {
+    args.push(WINDOW_MODE_FLAGS[options.windowMode]);
+  }
+  if (options.resolution) {
+    args.push("--resolution", options.resolution);
+  }
+  if (options.fixedFps !== undefined) {
+    args.push("--fixed-fps", String(options.fixedFps));
+  }
+  if (options.renderingDriver) {
+    args.push("--rendering-driver", options.renderingDriver);
+  }
+  if (options.audioDriver) {
+    args.push("--audio-driver", options.audioDriver);
+  }
+  if (options.verbose) {
+    args.push("--verbose");
+  }
+
+  return args;
+}
@@ -0,0 +1,126 @@
+/**
+ * Run lifecycle limits: a per-run time budget, a cap on concurrent runs, and
+ * removal of exited runs from memory (they stay available in the run archive)
+ */
+
+import { exitedRunTtlSeconds, maxConcurrentRuns } from "../config.js";
+import type { ProjectRun, RunSession } from "../types.js";
+import { createLogger } from "../utils/logger.js";
+import { notifyRunsChanged } from "./notifications.js";
+import { stopRun } from "./shutdown.js";
+
+const logger = createLogger("runs");
+
+let trackedSessions: Map<string, RunSession> | null = null;
+
+/**
+ * Forget sessions once all of their runs have been dropped from memory
+ */
+export function attachRunSessions(runSessions: Map<string, RunSession>): void {
+  trackedSessions = runSessions;
+}
+
+function dropFinishedSession(runningProjects: Map<string, ProjectRun>, run: ProjectRun): void {
+  const session = run.session && trackedSessions?.get(run.session.id);
+  if (session && session.runIds.every(runId => !runningProjects.has(runId))) {
+    trackedSessions!.delete(session.id);
+  }
+}
+
+/**
+ * Number of runs whose process is still alive
+ */
+export function countActiveRuns(runningProjects: Map<string, ProjectRun>): number {
+  let count = 0;
+  for (const run of runningProjects.values()) {
+    if (run.status === 'running') {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Launches that passed the concurrent run limit but aren't in runningProjects yet
+let pendingLaunches = 0;
+
+/**
+ * Error message if starting another run would exceed GODOT_MAX_CONCURRENT_RUNS, else null
+ */
+export function checkConcurrentRunLimit(runningProjects: Map<string, ProjectRun>): string | null {
+  if (maxConcurrentRuns === 0 || countActiveRuns(runningProjects) + pendingLaunches < maxConcurrentRuns) {
+    return null;
+  }
+
+  const active = Array.from(runningProjects.values())
+    .filter(run => run.status === 'running')
+    .map(run => run.id);
+  return `Too many concurrent runs (limit ${maxConcurrentRuns}). Stop one with stop_project first: ${active.join(", ")}`;
+}
+
+/**
+ * Count a launch against the limit until its run is added to runningProjects,
+ * so concurrent launches can't all pass the check. Call the returned function
+ * (any number of times) once the run is added or the launch fails.
+ */
+export function reserveRunSlot(): () => void {
+  pendingLaunches++;
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      pendingLaunches--;
+    }
+  };
+}
+
+/**
+ * Seconds left before the run is stopped for exceeding maxDurationSeconds, if it has a budget
+ */
+export function remainingSeconds(run: ProjectRun, now = Date.now()): number | undefined {
+  if (!run.deadline) {
+    return undefined;
+  }
+  return Math.max(0, Math.round((run.deadline.getTime() - now) / 1000));
+}
+
+/**
+ * Stop the run once its time budget runs out, and forget it some time after it exits
+ */
+export function applyRunLimits(runningProjects: Map<string, ProjectRun>, run: ProjectRun): void {
+  let durationTimer: ReturnType<typeof setTimeout> | undefined;
+
+  if (run.deadline) {
+    durationTimer = setTimeout(async () => {
+      if (run.status === 'exited') {
+        return;
+      }
+
+      logger.info(`Run ${run.id} exceeded its time budget, stopping it`);
+      run.timedOut = true;
+      try {
+        await stopRun(run);
+      } catch (error) {
+        logger.warning(`Failed to stop run ${run.id}`, error);
+      }
+      run.bridge?.destroy();
+      run.debugger?.close();
+    }, run.deadline.getTime() - Date.now());
+  }
+
+  // Emitted once all output is in, including after a failed spawn, which never emits 'exit'
+  run.events.once("closed", () => {
+    clearTimeout(durationTimer);
+
+    if (exitedRunTtlSeconds === 0) {
+      return;
+    }
+
+    setTimeout(() => {
+      if (runningProjects.get(run.id) === run) {
+        runningProjects.delete(run.id);
+        dropFinishedSession(runningProjects, run);
+        notifyRunsChanged();
+      }
+    }, exitedRunTtlSeconds * 1000).unref();
+  });
+}
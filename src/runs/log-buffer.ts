@@ -0,0 +1,161 @@
+/**
+ * Bounded in-memory log for a single output stream
+ *
+ * Offsets count bytes since the run started and only ever increase, so a client can
+ * poll with the last offset it saw. Once the byte cap is reached the oldest output
+ * is discarded; the full log remains available in the run archive.
+ */
+
+export interface LogRead {
+  text: string;
+  /** Offset of the first byte returned */
+  fromOffset: number;
+  /** Offset to pass as sinceOffset to continue reading */
+  nextOffset: number;
+  /** Bytes requested that had already been discarded from memory */
+  droppedBytes: number;
+}
+
+function isContinuationByte(data: Buffer, index: number): boolean {
+  return index < data.length && (data[index]! & 0xc0) === 0x80;
+}
+
+/**
+ * Length of the longest prefix of data up to maxBytes that ends on a UTF-8 character
+ * boundary (but at least one whole character, so paging always makes progress)
+ */
+export function utf8PrefixLength(data: Buffer, maxBytes: number): number {
+  let end = Math.min(maxBytes, data.length);
+  while (end > 0 && isContinuationByte(data, end)) {
+    end--;
+  }
+  if (end === 0 && data.length > 0) {
+    end = 1;
+    while (isContinuationByte(data, end)) {
+      end++;
+    }
+  }
+  return end;
+}
+
+/**
+ * Start of the longest suffix of data up to maxBytes that begins on a UTF-8 character boundary
+ */
+export function utf8SuffixStart(data: Buffer, maxBytes: number): number {
+  let start = Math.max(0, data.length - maxBytes);
+  while (isContinuationByte(data, start)) {
+    start++;
+  }
+  return start;
+}
+
+interface LogChunk {
+  offset: number;
+  data: Buffer;
+}
+
+export class LogBuffer {
+  private chunks: LogChunk[] = [];
+  private retainedBytes = 0;
+  private _endOffset = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Append output, discarding the oldest data beyond the byte cap
+   */
+  append(text: string): void {
+    const data = Buffer.from(text, "utf-8");
+    if (data.length === 0) {
+      return;
+    }
+
+    this.chunks.push({ offset: this._endOffset, data });
+    this.retainedBytes += data.length;
+    this._endOffset += data.length;
+
+    while (this.retainedBytes > this.maxBytes && this.chunks.length > 0) {
+      const first = this.chunks[0]!;
+      const excess = this.retainedBytes - this.maxBytes;
+
+      if (first.data.length <= excess) {
+        this.chunks.shift();
+        this.retainedBytes -= first.data.length;
+      } else {
+        first.data = first.data.subarray(excess);
+        first.offset += excess;
+        this.retainedBytes -= excess;
+      }
+    }
+  }
+
+  /**
+   * Offset of the oldest byte still held in memory
+   */
+  get startOffset(): number {
+    return this.chunks[0]?.offset ?? this._endOffset;
+  }
+
+  /**
+   * Total number of bytes ever written
+   */
+  get endOffset(): number {
+    return this._endOffset;
+  }
+
+  /**
+   * Read retained output starting at an offset, optionally limited to maxBytes
+   * (cut at the last whole character)
+   */
+  read(sinceOffset?: number, maxBytes?: number): LogRead {
+    const requested = Math.max(0, sinceOffset ?? 0);
+    const from = Math.min(Math.max(requested, this.startOffset), this._endOffset);
+
+    const parts: Buffer[] = [];
+    for (const chunk of this.chunks) {
+      const chunkEnd = chunk.offset + chunk.data.length;
+      if (chunkEnd <= from) {
+        continue;
+      }
+      parts.push(chunk.data.subarray(Math.max(0, from - chunk.offset)));
+    }
+
+    let data = Buffer.concat(parts);
+    if (maxBytes !== undefined && data.length > maxBytes) {
+      data = data.subarray(0, utf8PrefixLength(data, maxBytes));
+    }
+
+    return {
+      text: data.toString("utf-8"),
+      fromOffset: from,
+      nextOffset: from + data.length,
+      droppedBytes: Math.max(0, this.startOffset - requested),
+    };
+  }
+
+  /**
+   * All retained output as a string
+   */
+  toString(): string {
+    return this.read().text;
+  }
+}
+
+/**
+ * Read from a complete log (such as an archived file) with the same semantics as LogBuffer.read
+ */
+export function readFullLog(log: string, sinceOffset?: number, maxBytes?: number): LogRead {
+  const data = Buffer.from(log, "utf-8");
+  const from = Math.min(Math.max(0, sinceOffset ?? 0), data.length);
+  let slice = data.subarray(from);
+  if (maxBytes !== undefined && slice.length > maxBytes) {
+    slice = slice.subarray(0, utf8PrefixLength(slice, maxBytes));
+  }
+
+  return {
+    text: slice.toString("utf-8"),
+    fromOffset: from,
+    nextOffset: from + slice.length,
+    droppedBytes: 0,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Resource usage sampling of a run's process from /proc/<pid> (Linux only)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createLogger } from "../utils/logger.js";
+
+const logger = createLogger("runs");
+
+// Samples kept per run; at the default interval this covers an hour
+const MAX_SAMPLES = 720;
+
+// Kernel clock ticks per second, which /proc/<pid>/stat CPU times are measured in
+const CLOCK_TICKS = 100;
+
+// Relative change over the sampled window below which a metric counts as stable
+const STABLE_THRESHOLD = 0.05;
+
+export interface MetricsSample {
+  timestamp: string;
+  // User plus system CPU time since the process started
+  cpuSeconds: number;
+  // CPU usage since the previous sample, as a percentage of one core
+  cpuPercent?: number;
+  rssBytes: number;
+  threads: number;
+  openFds: number;
+}
+
+type SampleMetric = "cpuPercent" | "rssBytes" | "threads" | "openFds";
+
+export interface MetricSummary {
+  min: number;
+  max: number;
+  latest: number;
+  // Least-squares slope, in units per minute
+  slopePerMinute: number;
+  trend: "rising" | "falling" | "stable";
+}
+
+export interface MetricsReport {
+  supported: boolean;
+  pid?: number;
+  intervalMs: number;
+  samples: MetricsSample[];
+  summary: Partial<Record<SampleMetric, MetricSummary>>;
+}
+
+/**
+ * Read a single sample of a process, or null if it is gone
+ */
+function readSample(pid: number): MetricsSample | null {
+  const procDir = path.join("/proc", String(pid));
+  try {
+    // The command name in field 2 may contain spaces, so split after its closing paren
+    const stat = fs.readFileSync(path.join(procDir, "stat"), "utf-8");
+    const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+    const utime = parseInt(fields[11]!, 10);
+    const stime = parseInt(fields[12]!, 10);
+
+    const status = fs.readFileSync(path.join(procDir, "status"), "utf-8");
+    const rssKb = parseInt(/^VmRSS:\s+(\d+)/m.exec(status)?.[1] ?? "0", 10);
+    const threads = parseInt(/^Threads:\s+(\d+)/m.exec(status)?.[1] ?? "0", 10);
+
+    return {
+      timestamp: new Date().toISOString(),
+      cpuSeconds: (utime + stime) / CLOCK_TICKS,
+      rssBytes: rssKb * 1024,
+      threads,
+      openFds: fs.readdirSync(path.join(procDir, "fd")).length,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function summarize(samples: MetricsSample[], metric: SampleMetric): MetricSummary | undefined {
+  const points = samples
+    .filter(sample => sample[metric] !== undefined)
+    .map(sample => ({ x: Date.parse(sample.timestamp) / 60000, y: sample[metric]! }));
+  if (points.length === 0) {
+    return undefined;
+  }
+
+  const ys = points.map(point => point.y);
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const point of points) {
+    covariance += (point.x - meanX) * (point.y - meanY);
+    variance += (point.x - meanX) ** 2;
+  }
+  const slopePerMinute = variance === 0 ? 0 : covariance / variance;
+
+  // Compare the change over the whole window with the typical value
+  const span = points[points.length - 1]!.x - points[0]!.x;
+  const change = slopePerMinute * span;
+  const stable = Math.abs(change) <= Math.abs(meanY) * STABLE_THRESHOLD;
+
+  return {
+    min: Math.min(...ys),
+    max: Math.max(...ys),
+    latest: ys[ys.length - 1]!,
+    slopePerMinute,
+    trend: stable ? "stable" : change > 0 ? "rising" : "falling",
+  };
+}
+
+/**
+ * Periodically samples a process into a bounded time series
+ */
+export class MetricsSampler {
+  private samples: MetricsSample[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly pid: number,
+    private readonly intervalMs: number,
+    private readonly onSample?: () => void
+  ) {}
+
+  /**
+   * Whether sampling works on this platform
+   */
+  static get supported(): boolean {
+    return process.platform === "linux";
+  }
+
+  start(): void {
+    if (!MetricsSampler.supported || this.timer) {
+      return;
+    }
+
+    this.sample();
+    this.timer = setInterval(() => this.sample(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private sample(): void {
+    const sample = readSample(this.pid);
+    if (!sample) {
+      logger.debug(`Stopped sampling process ${this.pid}, it is no longer running`);
+      this.stop();
+      return;
+    }
+
+    const previous = this.samples[this.samples.length - 1];
+    if (previous) {
+      const elapsed = (Date.parse(sample.timestamp) - Date.parse(previous.timestamp)) / 1000;
+      if (elapsed > 0) {
+        sample.cpuPercent = Math.round((sample.cpuSeconds - previous.cpuSeconds) / elapsed * 1000) / 10;
+      }
+    }
+
+    this.samples.push(sample);
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+    this.onSample?.();
+  }
+
+  /**
+   * The sampled time series with per-metric summaries
+   */
+  report(): MetricsReport {
+    const metrics: SampleMetric[] = ["cpuPercent", "rssBytes", "threads", "openFds"];
+    const summary: MetricsReport["summary"] = {};
+    for (const metric of metrics) {
+      const result = summarize(this.samples, metric);
+      if (result) {
+        summary[metric] = result;
+      }
+    }
+
+    return {
+      supported: MetricsSampler.supported,
+      pid: this.pid,
+      intervalMs: this.intervalMs,
+      samples: this.samples,
+      summary,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * MCP resource subscriptions and change notifications for project runs
+ *
+ * Clients subscribe to run resources (stdout, stderr, status, ...) and receive
+ * notifications/resources/updated when they change, debounced so that a game
+ * logging every frame doesn't flood the client.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "../utils/logger.js";
+import { refreshToolAvailability } from "./tool-availability.js";
+
+const logger = createLogger("runs");
+
+const DEBOUNCE_MS = 250;
+
+const RUNS_LIST_URI = "godot://runs/";
+
+let notificationServer: McpServer | null = null;
+const subscriptions = new Set<string>();
+const pendingUpdates = new Map<string, ReturnType<typeof setTimeout>>();
+let pendingListChanged: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe for the given server
+ */
+export function attachNotificationServer(server: McpServer): void {
+  notificationServer = server;
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    const pending = pendingUpdates.get(request.params.uri);
+    if (pending) {
+      clearTimeout(pending);
+      pendingUpdates.delete(request.params.uri);
+    }
+    return {};
+  });
+}
+
+/**
+ * Schedule notifications/resources/updated for a subscribed URI
+ * Updates within the debounce window are coalesced into a single notification
+ */
+function resourceUpdated(uri: string): void {
+  if (!subscriptions.has(uri) || pendingUpdates.has(uri)) {
+    return;
+  }
+
+  pendingUpdates.set(uri, setTimeout(() => {
+    pendingUpdates.delete(uri);
+    if (!notificationServer?.isConnected() || !subscriptions.has(uri)) {
+      return;
+    }
+    notificationServer.server.sendResourceUpdated({ uri })
+      .catch((error) => logger.debug(`Failed to send resource update for ${uri}`, error));
+  }, DEBOUNCE_MS));
+}
+
+/**
+ * Notify subscribers that a run resource changed, e.g. notifyRunResource(id, "stdout")
+ */
+export function notifyRunResource(runId: string, ...resources: string[]): void {
+  for (const resource of resources) {
+    resourceUpdated(`godot://runs/${runId}/${resource}`);
+  }
+}
+
+/**
+ * Notify subscribers that a run's status changed (it also appears in the runs list)
+ */
+export function notifyRunStatus(runId: string): void {
+  notifyRunResource(runId, "status");
+  resourceUpdated(RUNS_LIST_URI);
+  // Bridge and debugger connections decide which tools are listed
+  refreshToolAvailability();
+}
+
+/**
+ * Notify subscribers that a run session or one of its runs changed
+ */
+export function notifySession(sessionId: string): void {
+  resourceUpdated(`godot://sessions/${sessionId}`);
+}
+
+/**
+ * Notify clients that runs were added or removed
+ */
+export function notifyRunsChanged(): void {
+  resourceUpdated(RUNS_LIST_URI);
+  refreshToolAvailability();
+
+  if (pendingListChanged) {
+    return;
+  }
+
+  pendingListChanged = setTimeout(() => {
+    pendingListChanged = null;
+    notificationServer?.sendResourceListChanged();
+  }, DEBOUNCE_MS);
+}
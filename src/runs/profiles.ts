@@ -0,0 +1,180 @@
+/**
+ * Named launch profiles defined next to project.godot
+ *
+ * Profiles come from `.mcp-godot.json`:
+ *
+ *   { "profiles": { "soak": { "headless": true, "args": ["--soak"], "env": { "SEED": "1" } } } }
+ *
+ * or, if that file doesn't exist, from an [mcp] section in project.godot:
+ *
+ *   [mcp]
+ *   profiles/soak/headless=true
+ *   profiles/soak/args=PackedStringArray("--soak")
+ *   profiles/soak/env={"SEED": "1"}
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+
+export const PROFILES_FILE = ".mcp-godot.json";
+
+// Longest time budget a run can have: the duration timer can't wait past 2^31-1 ms
+export const MAX_DURATION_SECONDS = 2147483;
+
+const profileSchema = z.object({
+  description: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+  userArgs: z.array(z.string()).optional(),
+  headless: z.boolean().optional(),
+  scene: z.string().optional(),
+  resolution: z.string().optional(),
+  windowMode: z.enum(["windowed", "maximized", "fullscreen"]).optional(),
+  fixedFps: z.number().int().positive().optional(),
+  renderingDriver: z.string().optional(),
+  audioDriver: z.string().optional(),
+  verbose: z.boolean().optional(),
+  // How long to wait for the MCP Bridge handshake, overriding GODOT_BRIDGE_CONNECT_TIMEOUT_MS
+  bridgeTimeoutMs: z.number().int().positive().optional(),
+  // Stop the run after this long
+  maxDurationSeconds: z.number().int().positive().max(MAX_DURATION_SECONDS).optional(),
+  // Fail the launch (and stop the game) if the bridge doesn't connect in time
+  requireBridge: z.boolean().optional(),
+}).strict();
+
+export type LaunchProfile = z.infer<typeof profileSchema>;
+
+export interface ProfileSet {
+  // File the profiles were read from, or null if the project defines none
+  source: string | null;
+  profiles: Record<string, LaunchProfile>;
+}
+
+/**
+ * Convert a project.godot value to JSON: strings, numbers, booleans, arrays and
+ * dictionaries already are; PackedStringArray(...) becomes a plain array
+ */
+function parseProjectValue(raw: string): unknown {
+  const packed = raw.match(/^PackedStringArray\((.*)\)$/s);
+  return JSON.parse(packed ? `[${packed[1]}]` : raw);
+}
+
+/**
+ * Whether a project.godot value is complete, i.e. has no open brackets or string;
+ * Godot writes dictionaries and arrays over several lines
+ */
+function isCompleteValue(raw: string): boolean {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ']' || char === ')') {
+      depth--;
+    }
+  }
+  return depth <= 0 && !inString;
+}
+
+/**
+ * Read profiles/<name>/<field>=<value> entries from the [mcp] section of project.godot
+ */
+function readProjectSection(projectFile: string): Record<string, unknown> | null {
+  const lines = fs.readFileSync(projectFile, 'utf-8').split(/\r?\n/);
+  const profiles: Record<string, Record<string, unknown>> = {};
+  let inSection = false;
+  let found = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    const section = line.match(/^\[(.+)\]\s*$/);
+    if (section) {
+      inSection = section[1] === 'mcp';
+      found ||= inSection;
+      continue;
+    }
+    if (!inSection) {
+      continue;
+    }
+
+    const entry = line.match(/^profiles\/([^/=]+)\/([^/=]+)=(.*)$/);
+    if (!entry) {
+      continue;
+    }
+    const [, name, field] = entry;
+    let raw = entry[3]!;
+    while (!isCompleteValue(raw) && index + 1 < lines.length) {
+      raw += "\n" + lines[++index];
+    }
+    try {
+      (profiles[name!] ??= {})[field!] = parseProjectValue(raw.trim());
+    } catch {
+      throw new Error(`Invalid value for profiles/${name}/${field} in ${projectFile}: ${raw}`);
+    }
+  }
+
+  return found ? profiles : null;
+}
+
+function validateProfiles(source: string, raw: unknown): Record<string, LaunchProfile> {
+  const result = z.record(z.string(), profileSchema).safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid launch profiles in ${source}:\n- ${issues.join("\n- ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the launch profiles of a project
+ */
+export function loadProfiles(projectPath: string): ProfileSet {
+  const configFile = path.join(projectPath, PROFILES_FILE);
+  if (fs.existsSync(configFile)) {
+    let parsed: { profiles?: unknown };
+    try {
+      parsed = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse ${configFile}: ${error instanceof Error ? error.message : error}`);
+    }
+    return { source: configFile, profiles: validateProfiles(configFile, parsed.profiles ?? {}) };
+  }
+
+  const projectFile = path.join(projectPath, 'project.godot');
+  if (fs.existsSync(projectFile)) {
+    const section = readProjectSection(projectFile);
+    if (section) {
+      return { source: projectFile, profiles: validateProfiles(projectFile, section) };
+    }
+  }
+
+  return { source: null, profiles: {} };
+}
+
+/**
+ * Look up a single profile by name
+ */
+export function getProfile(projectPath: string, name: string): LaunchProfile {
+  const { source, profiles } = loadProfiles(projectPath);
+  const profile = profiles[name];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      source
+        ? `Unknown launch profile '${name}' in ${source}. Available profiles: ${available.join(", ") || "none"}`
+        : `Unknown launch profile '${name}': no ${PROFILES_FILE} or [mcp] section in project.godot`
+    );
+  }
+  return profile;
+}
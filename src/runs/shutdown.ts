@@ -0,0 +1,112 @@
+/**
+ * Graceful, escalating shutdown of project runs
+ *
+ * 1. Ask the MCP Bridge addon to call get_tree().quit(), so _exit_tree and
+ *    save-on-quit logic in the game get a chance to run
+ * 2. Send SIGTERM if the game is still running after a grace period
+ * 3. Send SIGKILL after a hard timeout
+ *
+ * Attached games belong to whoever started them, so stopping one only disconnects.
+ */
+
+import type { ProjectRun, StopMethod } from "../types.js";
+
+const QUIT_REQUEST_TIMEOUT_MS = 1000;
+const QUIT_GRACE_MS = 3000;
+const TERM_GRACE_MS = 3000;
+const KILL_WAIT_MS = 1000;
+
+/**
+ * Resolve once the run's process has exited, or with false after timeoutMs
+ */
+function waitForExit(run: ProjectRun, timeoutMs: number): Promise<boolean> {
+  const child = run.process;
+  if (!child || run.status === 'exited') {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const onExit = () => {
+      clearTimeout(timeout);
+      resolve(true);
+    };
+    const timeout = setTimeout(() => {
+      child.off("exit", onExit);
+      resolve(false);
+    }, timeoutMs);
+    child.once("exit", onExit);
+  });
+}
+
+async function requestQuit(run: ProjectRun): Promise<boolean> {
+  if (!run.bridge?.connected || !run.bridge.hasCapability("lifecycle")) {
+    return false;
+  }
+
+  try {
+    await run.bridge.sendRequest("quit", {}, QUIT_REQUEST_TIMEOUT_MS);
+  } catch {
+    return false;
+  }
+
+  // The addon's stdin thread blocks on a read; closing stdin lets it finish so
+  // _exit_tree doesn't hang waiting for it
+  run.process?.stdin?.end();
+  return true;
+}
+
+/**
+ * Stop a run, escalating from a quit request to SIGTERM to SIGKILL
+ * Returns the stage that ended the process, or undefined if it had already exited
+ */
+export async function stopRun(run: ProjectRun): Promise<StopMethod | undefined> {
+  if (run.status === 'exited') {
+    return undefined;
+  }
+  run.stopRequested = true;
+
+  const child = run.process;
+  let method: StopMethod = 'quit';
+  if (!child) {
+    method = 'detach';
+    run.bridge?.destroy();
+  } else if (!(await requestQuit(run) && await waitForExit(run, QUIT_GRACE_MS))) {
+    method = 'SIGTERM';
+    child.kill('SIGTERM');
+
+    if (!await waitForExit(run, TERM_GRACE_MS)) {
+      method = 'SIGKILL';
+      child.kill('SIGKILL');
+      await waitForExit(run, KILL_WAIT_MS);
+    }
+  }
+
+  run.stopMethod = method;
+  run.archive?.update(run);
+  return method;
+}
+
+/**
+ * Stop every live run in parallel
+ */
+export async function stopAllRuns(runningProjects: Map<string, ProjectRun>): Promise<void> {
+  await Promise.all(Array.from(runningProjects.values()).map(run => stopRun(run)));
+}
+
+/**
+ * Synchronous last-resort stop for when the server process itself is exiting
+ * and cannot wait: requests the stop and sends SIGTERM immediately
+ */
+export function stopRunNow(run: ProjectRun): void {
+  if (run.status === 'exited') {
+    return;
+  }
+  run.stopRequested = true;
+  if (!run.process) {
+    run.stopMethod = 'detach';
+    run.bridge?.destroy();
+    return;
+  }
+  run.stopMethod = 'SIGTERM';
+  run.process.kill('SIGTERM');
+}
@@ -0,0 +1,79 @@
+/**
+ * Capability-gated bridge tools
+ *
+ * Tools that talk to the MCP Bridge addon are only listed while some running game
+ * can serve them: its addon is connected and reports the tool's capability, or the
+ * tool can fall back to the remote debugger and that is connected. Changes reach
+ * clients as notifications/tools/list_changed (sent by the SDK on enable/disable).
+ */
+
+import type { RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ProjectRun } from "../types.js";
+
+const DEBOUNCE_MS = 250;
+
+interface GatedTool {
+  tool: RegisteredTool;
+  capability: string;
+  debuggerFallback: boolean;
+}
+
+const gatedTools: GatedTool[] = [];
+let trackedRuns: Map<string, ProjectRun> | null = null;
+let pendingRefresh: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Decide tool availability from the given runs
+ */
+export function attachToolAvailability(runningProjects: Map<string, ProjectRun>): void {
+  trackedRuns = runningProjects;
+  applyAvailability();
+}
+
+/**
+ * Only list the tool while a running game's addon supports the capability (or,
+ * with debuggerFallback, while a game's remote debugger is connected)
+ */
+export function gateTool(tool: RegisteredTool, capability: string, { debuggerFallback = false } = {}): void {
+  gatedTools.push({ tool, capability, debuggerFallback });
+  if (trackedRuns) {
+    applyAvailability();
+  }
+}
+
+function canServe(run: ProjectRun, { capability, debuggerFallback }: GatedTool): boolean {
+  if (run.status !== 'running') {
+    return false;
+  }
+  return (run.bridge?.connected === true && run.bridge.hasCapability(capability)) ||
+    (debuggerFallback && run.debugger?.connected === true);
+}
+
+function applyAvailability(): void {
+  const runs = [...trackedRuns?.values() ?? []];
+  for (const gated of gatedTools) {
+    const available = runs.some(run => canServe(run, gated));
+    if (available !== gated.tool.enabled) {
+      if (available) {
+        gated.tool.enable();
+      } else {
+        gated.tool.disable();
+      }
+    }
+  }
+}
+
+/**
+ * Re-evaluate which tools to list after runs, bridges or debuggers changed
+ * Changes within the debounce window are applied together.
+ */
+export function refreshToolAvailability(): void {
+  if (pendingRefresh) {
+    return;
+  }
+
+  pendingRefresh = setTimeout(() => {
+    pendingRefresh = null;
+    applyAvailability();
+  }, DEBOUNCE_MS);
+}
@@ -1,17 +1,90 @@
 import { ChildProcess } from "child_process";
+import type { EventEmitter } from "events";
 import type { BridgeClient } from "./bridge/bridge-client.js";
+import type { DebuggerClient } from "./debugger/debugger-client.js";
+import type { EventLog } from "./runs/events.js";
+import type { LogStream, RunArchive } from "./runs/history.js";
+import type { LaunchConfig } from "./runs/launch.js";
+import type { LogBuffer } from "./runs/log-buffer.js";
+import type { MetricsSampler } from "./runs/metrics.js";
 
 // Types for project management
+export interface RunOutputEvent {
+  stream: LogStream;
+  text: string;
+  offset: number; // Stream offset of the first byte of text
+}
+
+export interface RunEvents {
+  output: [RunOutputEvent];
+  // Emitted once the process has exited and all of its output has been read
+  closed: [];
+}
+
+// How a run ended: stopped on request, stopped for exceeding its time budget,
+// crashed (crash signal or backtrace), exited on its own (exitCode says how), or
+// unknown because the server that launched it went away first
+export type ExitReason = 'stopped' | 'timeout' | 'crashed' | 'exited' | 'interrupted';
+
+// Which stage of the shutdown escalation actually ended the process
+// (attached games are only detached from, never stopped)
+export type StopMethod = 'quit' | 'SIGTERM' | 'SIGKILL' | 'detach';
+
+// Address of a game started outside this server, see attach_to_game
+export interface AttachedGame {
+  host: string;
+  port: number;
+}
+
+// A run's place in a group launched by run_session
+export interface RunSessionMembership {
+  id: string;
+  role: string;
+  // Position among instances with the same role, starting at 0
+  index: number;
+}
+
+export interface RunSession {
+  id: string;
+  startTime: Date;
+  // Run IDs in launch order
+  runIds: string[];
+}
+
 export interface ProjectRun {
   id: string;
-  process: ChildProcess;
+  // Absent for attached games, which this server doesn't own
+  process?: ChildProcess;
+  attached?: AttachedGame;
   projectPath: string;
-  stdout: string[];
-  stderr: string[];
+  stdout: LogBuffer;
+  stderr: LogBuffer;
   status: 'running' | 'exited';
+  // Set with the 'closed' event, once all output has been read after exiting
+  outputClosed?: boolean;
   exitCode?: number;
+  exitSignal?: NonNullable<ChildProcess["signalCode"]>;
+  exitReason?: ExitReason;
+  stopRequested?: boolean;
+  stopMethod?: StopMethod;
+  timedOut?: boolean;
   startTime: Date;
+  // When the run is stopped if it's still going, from maxDurationSeconds
+  deadline?: Date;
+  endTime?: Date;
   args?: string[];
+  // Incremented by restart_project, which keeps the run ID
+  generation: number;
+  // IDs the earlier generations of this run were moved to, oldest first
+  previousRunIds?: string[];
+  session?: RunSessionMembership;
+  launch?: LaunchConfig;
   bridge?: BridgeClient;
   bridgeConnected: boolean;
+  debugger?: DebuggerClient;
+  archive?: RunArchive;
+  metrics?: MetricsSampler;
+  events: EventEmitter<RunEvents>;
+  // Scene changes, node and custom events from the game, see runs/events.ts
+  gameEvents: EventLog;
 }
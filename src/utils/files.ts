@@ -1,6 +1,10 @@
 import { parse, type GodotResource, type GodotScene } from "@fernforestgames/godot-resource-parser";
+import { createHash } from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("files");
 
 // Helper functions for file discovery
 export function findGodotFiles(directory: string | undefined, extension: string): string[] {
@@ -31,7 +35,7 @@ export function findGodotFiles(directory: string | undefined, extension: string)
       }
     } catch (error) {
       // Skip directories we can't read
-      console.error(`Warning: Failed to read directory ${dir}:`, error);
+      logger.warning(`Failed to read directory ${dir}`, error);
     }
   }
 
@@ -47,3 +51,10 @@ export function parseGodotFile(projectPath: string | undefined, filePath: string
   const content = fs.readFileSync(fullPath, 'utf-8');
   return parse(content);
 }
+
+/**
+ * Short stable identifier for a project directory, for naming per-project state
+ */
+export function hashProjectPath(projectPath: string): string {
+  return createHash('sha1').update(path.resolve(projectPath)).digest('hex').slice(0, 8);
+}
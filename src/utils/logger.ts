@@ -0,0 +1,79 @@
+// Diagnostic logging routed through MCP notifications/message
+//
+// Stdout carries the JSON-RPC stream, so nothing here may ever write to it.
+// Until a client is connected (or if sending fails), messages go to stderr.
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+const LEVEL_SEVERITY: Record<LoggingLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+  alert: 6,
+  emergency: 7,
+};
+
+// Minimum level written to stderr when no client is connected
+const STDERR_MIN_LEVEL: LoggingLevel = 'info';
+
+let loggingServer: McpServer | null = null;
+
+/**
+ * Route log messages to clients of the given server
+ * The server must declare the `logging` capability so it honors logging/setLevel
+ */
+export function attachLoggingServer(server: McpServer): void {
+  loggingServer = server;
+}
+
+export interface Logger {
+  debug(message: string, error?: unknown): void;
+  info(message: string, error?: unknown): void;
+  notice(message: string, error?: unknown): void;
+  warning(message: string, error?: unknown): void;
+  error(message: string, error?: unknown): void;
+}
+
+function formatMessage(message: string, error: unknown): string {
+  if (error === undefined) {
+    return message;
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return `${message}: ${detail}`;
+}
+
+function writeStderr(level: LoggingLevel, name: string, text: string): void {
+  if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[STDERR_MIN_LEVEL]) {
+    return;
+  }
+  process.stderr.write(`[${name}] ${level.toUpperCase()}: ${text}\n`);
+}
+
+function log(level: LoggingLevel, name: string, message: string, error: unknown): void {
+  const text = formatMessage(message, error);
+
+  if (!loggingServer?.isConnected()) {
+    writeStderr(level, name, text);
+    return;
+  }
+
+  // The SDK drops messages below the level requested via logging/setLevel
+  loggingServer.server.sendLoggingMessage({ level, logger: name, data: text })
+    .catch(() => writeStderr(level, name, text));
+}
+
+/**
+ * Create a logger that tags every message with the given logger name
+ */
+export function createLogger(name: string): Logger {
+  return {
+    debug: (message, error) => log('debug', name, message, error),
+    info: (message, error) => log('info', name, message, error),
+    notice: (message, error) => log('notice', name, message, error),
+    warning: (message, error) => log('warning', name, message, error),
+    error: (message, error) => log('error', name, message, error),
+  };
+}